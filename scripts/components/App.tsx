@@ -1,5 +1,5 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Box, Text, useApp } from 'ink';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Box, Text, useApp, useInput } from 'ink';
 import { Spinner } from '@inkjs/ui';
 import type {
   AppStep,
@@ -9,8 +9,14 @@ import type {
   HybridHWAccel,
   Rendition,
   RenditionQuality,
-  TranscodeProgress,
+  RenditionJob,
+  RunningJob,
   PackagerOutput,
+  EncodingPreset,
+  LadderAnalysis,
+  TonemapOperator,
+  TonemapPreview,
+  VideoCodec,
 } from '../lib/types.js';
 import {
   checkAllTools,
@@ -23,24 +29,27 @@ import {
   buildRenditionLadder,
   filterRenditions,
 } from '../lib/renditions.js';
-import {
-  transcodeRendition,
-  extractSubtitles,
-  extractAudio,
-  ensureOutputDir,
-  ensureTmpDir,
-  getTranscodeSettings,
-} from '../lib/transcoder.js';
-import {
-  runPackager,
-  preparePackagerInputs,
-} from '../lib/packager.js';
+import { runPipeline, getDefaultOutputPath } from '../lib/pipeline.js';
+import { DEFAULT_CODECS } from '../lib/cli-args.js';
+import { analyzeLadder } from '../lib/per-title.js';
+import { getTranscodeSettings } from '../lib/transcoder.js';
+import { getPreviewDir, renderTonemapPreview } from '../lib/tonemap.js';
 import { createLogger, getLogger } from '../lib/logger.js';
+import {
+  cancelRun,
+  hasRunningProcesses,
+  pauseRun,
+  resetRunControl,
+  resumeRun,
+  skipJob,
+} from '../lib/run-control.js';
 
 import { ToolChecker } from './ToolChecker.js';
 import { SourceInput } from './SourceInput.js';
 import { OutputInput } from './OutputInput.js';
 import { MediaInfo } from './MediaInfo.js';
+import { LadderAnalyzing, LadderReview } from './LadderReview.js';
+import { TonemapPreviewing, TonemapSelect } from './TonemapSelect.js';
 import { RenditionSelect } from './RenditionSelect.js';
 import { HWSelect } from './HWSelect.js';
 import { Progress } from './Progress.js';
@@ -48,20 +57,36 @@ import { Packaging } from './Packaging.js';
 import { Complete } from './Complete.js';
 import { ErrorDisplay } from './Error.js';
 
-import * as path from 'path';
-
 interface AppProps {
   devMode: boolean;
+  preset?: EncodingPreset;
+  perTitle?: boolean;
+  idet?: boolean;
+  vfrScan?: boolean;
+  crop?: boolean;
+  threads?: number;
+  singleDecode?: boolean;
+  chunked?: boolean;
+  codecs?: VideoCodec[];
 }
 
-export function App({ devMode }: AppProps) {
+export function App({
+  devMode,
+  preset,
+  perTitle = false,
+  idet = false,
+  vfrScan = false,
+  crop = false,
+  threads,
+  singleDecode = false,
+  chunked = false,
+  codecs = DEFAULT_CODECS,
+}: AppProps) {
   const { exit } = useApp();
 
   // Initialize logger for dev mode
-  const [loggerReady, setLoggerReady] = useState(false);
   useEffect(() => {
     createLogger(devMode);
-    setLoggerReady(true);
   }, [devMode]);
 
   // App state
@@ -76,6 +101,14 @@ export function App({ devMode }: AppProps) {
 
   const [mediaInfo, setMediaInfo] = useState<MediaInfoType | null>(null);
 
+  const [analysisProgress, setAnalysisProgress] = useState({ done: 0, total: 0 });
+  const [ladderAnalysis, setLadderAnalysis] = useState<LadderAnalysis | null>(null);
+
+  const [tonemapOperator, setTonemapOperator] = useState<TonemapOperator | null>(null);
+  const [tonemapPreview, setTonemapPreview] = useState<TonemapPreview | null>(null);
+  const [previewProgress, setPreviewProgress] = useState({ done: 0, total: 0 });
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
   const [availableRenditions, setAvailableRenditions] = useState<Rendition[]>(
     []
   );
@@ -89,18 +122,14 @@ export function App({ devMode }: AppProps) {
   );
   const [hybridConfig, setHybridConfig] = useState<HybridHWAccel | null>(null);
 
-  const [currentJob, setCurrentJob] = useState<{
-    codec: 'vp9' | 'hevc';
-    quality: RenditionQuality;
-  } | null>(null);
-  const [currentProgress, setCurrentProgress] =
-    useState<TranscodeProgress | null>(null);
-  const [completedJobs, setCompletedJobs] = useState<
-    Array<{ codec: 'vp9' | 'hevc'; quality: RenditionQuality }>
-  >([]);
+  const [runningJobs, setRunningJobs] = useState<RunningJob[]>([]);
+  const [completedJobs, setCompletedJobs] = useState<RenditionJob[]>([]);
   const [totalJobs, setTotalJobs] = useState(0);
   const [extractingSubtitles, setExtractingSubtitles] = useState(false);
   const [extractingAudio, setExtractingAudio] = useState(false);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [paused, setPaused] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
 
   const [packagingMessage, setPackagingMessage] = useState('');
   const [packagerOutput, setPackagerOutput] = useState<PackagerOutput | null>(
@@ -109,6 +138,37 @@ export function App({ devMode }: AppProps) {
 
   const [error, setError] = useState<string | null>(null);
 
+  const handleCancel = useCallback(() => {
+    setCancelling(true);
+    setPaused(false);
+    cancelRun();
+  }, []);
+
+  const handleTogglePause = useCallback(() => {
+    if (paused) {
+      resumeRun();
+    } else {
+      pauseRun();
+    }
+    setPaused(!paused);
+  }, [paused]);
+
+  // Ctrl+C stops a running pipeline's processes and keeps it resumable;
+  // pressed again, or at any other step, it exits. Probing, per-title
+  // analysis and the tone-map preview are cancelled on the way out, which
+  // kills their processes and removes what they were writing
+  useInput((input, key) => {
+    if (!(key.ctrl && input === 'c')) return;
+    if ((step === 'transcoding' || step === 'packaging') && !cancelling) {
+      handleCancel();
+      return;
+    }
+    if (hasRunningProcesses()) {
+      cancelRun();
+    }
+    exit();
+  });
+
   // Check and install tools
   useEffect(() => {
     if (step !== 'checking-tools') return;
@@ -158,14 +218,12 @@ export function App({ devMode }: AppProps) {
     setStep('probing');
 
     try {
-      const info = await probeMedia(inputPath);
+      const info = await probeMedia(inputPath, { idet, vfrScan, crop });
       setMediaInfo(info);
       setSourcePath(inputPath);
 
       // Set default output path
-      const dir = path.dirname(inputPath);
-      const baseName = path.basename(inputPath, path.extname(inputPath));
-      setOutputPath(path.join(dir, `${baseName}_output`));
+      setOutputPath(getDefaultOutputPath(inputPath));
 
       setStep('input-output');
     } catch (err) {
@@ -178,7 +236,7 @@ export function App({ devMode }: AppProps) {
       }
       setStep('input-source');
     }
-  }, []);
+  }, [idet, vfrScan, crop]);
 
   // Handle output path submission
   const handleOutputSubmit = useCallback(
@@ -189,12 +247,8 @@ export function App({ devMode }: AppProps) {
     []
   );
 
-  // Handle media info continue
-  const handleMediaInfoContinue = useCallback(async () => {
-    if (!mediaInfo) return;
-
-    // Build rendition ladder
-    const renditions = buildRenditionLadder(mediaInfo.video);
+  // Detect hardware acceleration and move on to rendition/HW selection
+  const selectHardware = useCallback(async (renditions: Rendition[]) => {
     setAvailableRenditions(renditions);
     setSelectedRenditions(renditions.map((r) => r.quality));
 
@@ -220,13 +274,93 @@ export function App({ devMode }: AppProps) {
       setStep('selecting-hw');
     } else {
       setSelectedHWAccel(displayOptions[0]);
-      startTranscoding(
-        renditions.map((r) => r.quality),
-        displayOptions[0],
-        hybrid && displayOptions[0].displayName.startsWith('Hybrid') ? hybrid : null
+      setStep('transcoding');
+    }
+  }, [devMode]);
+
+  // Tone-mapping from the preset (or the default) before any TUI choice
+  const configuredTonemap = getTranscodeSettings(devMode ? 'dev' : 'prod', preset).tonemap;
+
+  // Build the rendition ladder, per-title when requested. The operator is
+  // the one just chosen, which isn't in state yet
+  const prepareLadder = useCallback(async (operator?: TonemapOperator) => {
+    if (!mediaInfo) return;
+
+    const ladder = buildRenditionLadder(mediaInfo.video, preset?.rungs);
+    if (!perTitle) {
+      await selectHardware(ladder);
+      return;
+    }
+
+    // Per-title: tune the ladder to the content and show it before encoding
+    setStep('analyzing-ladder');
+    const { tonemap } = getTranscodeSettings(
+      devMode ? 'dev' : 'prod',
+      preset,
+      operator ? { operator } : undefined
+    );
+    try {
+      const analysis = await analyzeLadder(sourcePath, mediaInfo, ladder, tonemap, (done, total) =>
+        setAnalysisProgress({ done, total })
       );
+      setLadderAnalysis(analysis);
+      setStep('reviewing-ladder');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      setStep('error');
     }
-  }, [mediaInfo, devMode]);
+  }, [mediaInfo, sourcePath, preset, perTitle, devMode, selectHardware]);
+
+  // Handle media info continue
+  const handleMediaInfoContinue = useCallback(async () => {
+    if (!mediaInfo) return;
+
+    // HDR sources with SDR rungs: pick the tone-mapping operator first
+    const ladder = buildRenditionLadder(mediaInfo.video, preset?.rungs);
+    const tonemaps =
+      mediaInfo.video.hdrType !== 'SDR' &&
+      (codecs.includes('h264') || ladder.some((r) => !r.preserveHDR));
+    if (tonemaps) {
+      setStep('selecting-tonemap');
+      return;
+    }
+    await prepareLadder();
+  }, [mediaInfo, preset, codecs, prepareLadder]);
+
+  // Render every operator on a few frames, then return to the selection
+  const handleTonemapPreview = useCallback(async () => {
+    if (!mediaInfo) return;
+
+    setStep('previewing-tonemap');
+    setPreviewError(null);
+    try {
+      const preview = await renderTonemapPreview(
+        sourcePath,
+        getPreviewDir(outputPath),
+        mediaInfo,
+        configuredTonemap,
+        (done, total) => setPreviewProgress({ done, total })
+      );
+      setTonemapPreview(preview);
+    } catch (err) {
+      setPreviewError(err instanceof Error ? err.message : 'Unknown error');
+    }
+    setStep('selecting-tonemap');
+  }, [mediaInfo, sourcePath, outputPath, configuredTonemap]);
+
+  // Handle tone-mapping operator selection
+  const handleTonemapSelect = useCallback(
+    async (operator: TonemapOperator) => {
+      setTonemapOperator(operator);
+      await prepareLadder(operator);
+    },
+    [prepareLadder]
+  );
+
+  // Handle per-title ladder confirmation
+  const handleLadderContinue = useCallback(() => {
+    if (ladderAnalysis) selectHardware(ladderAnalysis.renditions);
+  }, [ladderAnalysis, selectHardware]);
 
   // Handle rendition selection (dev mode)
   const handleRenditionSelect = useCallback(
@@ -235,26 +369,18 @@ export function App({ devMode }: AppProps) {
       if (availableHWAccel.length > 1) {
         setStep('selecting-hw');
       } else {
-        const hw = availableHWAccel[0];
-        setSelectedHWAccel(hw);
-        // Check if it's the hybrid option
-        const isHybrid = hw.displayName.startsWith('Hybrid');
-        startTranscoding(selected, hw, isHybrid ? hybridConfig : null);
+        setSelectedHWAccel(availableHWAccel[0]);
+        setStep('transcoding');
       }
     },
-    [availableHWAccel, hybridConfig]
+    [availableHWAccel]
   );
 
   // Handle HW selection
-  const handleHWSelect = useCallback(
-    (hw: HWAccelInfo) => {
-      setSelectedHWAccel(hw);
-      // Check if user selected the hybrid option
-      const isHybrid = hw.displayName.startsWith('Hybrid');
-      startTranscoding(selectedRenditions, hw, isHybrid ? hybridConfig : null);
-    },
-    [selectedRenditions, hybridConfig]
-  );
+  const handleHWSelect = useCallback((hw: HWAccelInfo) => {
+    setSelectedHWAccel(hw);
+    setStep('transcoding');
+  }, []);
 
   // Start transcoding
   const startTranscoding = useCallback(
@@ -264,191 +390,75 @@ export function App({ devMode }: AppProps) {
       hybrid: HybridHWAccel | null = null
     ) => {
       if (!mediaInfo) return;
-
-      setStep('transcoding');
+      resetRunControl();
 
       try {
-        await ensureOutputDir(outputPath);
-        const tmpDir = await ensureTmpDir(outputPath);
-
-        // Initialize logger with output directory in dev mode
-        const logger = getLogger();
-        await logger.init(outputPath);
-        await logger.info(`Source: ${sourcePath}`);
-        await logger.info(`Media: ${mediaInfo.video.width}x${mediaInfo.video.height} ${mediaInfo.video.hdrType}`);
-
         const renditions = filterRenditions(
           availableRenditions,
           renditionQualities
         );
-        const settings = getTranscodeSettings(devMode ? 'dev' : 'prod');
-        const skipIfExists = devMode; // Skip existing files in dev mode
-
-        await logger.info(`Mode: ${devMode ? 'DEV' : 'PROD'}`);
-        await logger.info(`Skip existing: ${skipIfExists}`);
-        await logger.info(`Renditions: ${renditions.map(r => r.quality).join(', ')}`);
-        await logger.info(`HW Accel: ${hwAccel.displayName}`);
-        if (hybrid) {
-          await logger.info(`Hybrid Mode: HEVC=${hybrid.hevc.displayName}, VP9=${hybrid.vp9.displayName}`);
-        }
-
-        // Calculate total jobs (VP9 + HEVC for each rendition)
-        const jobs = renditions.length * 2;
-        setTotalJobs(jobs);
 
-        // Extract subtitles first (to tmp folder)
-        if (mediaInfo.subtitleStreams.length > 0) {
-          setExtractingSubtitles(true);
-          await extractSubtitles(
+        const result = await runPipeline(
+          {
             sourcePath,
-            tmpDir,
-            mediaInfo.subtitleStreams,
-            skipIfExists
-          );
-          setExtractingSubtitles(false);
-        }
-
-        // Extract audio (to tmp folder)
-        if (mediaInfo.audioStreams.length > 0) {
-          setExtractingAudio(true);
-          await extractAudio(sourcePath, tmpDir, mediaInfo.audioStreams, skipIfExists);
-          setExtractingAudio(false);
-        }
-
-        // Transcode each rendition
-        const videoFiles: Array<{
-          path: string;
-          quality: RenditionQuality;
-          codec: 'vp9' | 'hevc';
-        }> = [];
-
-        // Determine which HW to use for each codec (hybrid mode uses different HW per codec)
-        const vp9HWAccel = hybrid ? hybrid.vp9 : hwAccel;
-        const hevcHWAccel = hybrid ? hybrid.hevc : hwAccel;
-
-        for (const rendition of renditions) {
-          // VP9 (output to tmp folder)
-          setCurrentJob({ codec: 'vp9', quality: rendition.quality });
-          try {
-            const vp9Path = await transcodeRendition(
-              sourcePath,
-              tmpDir,
-              rendition,
-              'vp9',
-              vp9HWAccel,
-              mediaInfo,
-              settings,
-              {
-                onProgress: setCurrentProgress,
-                onPassComplete: () => {},
-                onComplete: () => {
-                  setCompletedJobs((prev) => [
-                    ...prev,
-                    { codec: 'vp9', quality: rendition.quality },
-                  ]);
-                },
-                onError: () => {},
-              },
-              skipIfExists
-            );
-            if (vp9Path) {
-              videoFiles.push({
-                path: vp9Path,
-                quality: rendition.quality,
-                codec: 'vp9',
-              });
-            }
-          } catch {
-            // Continue with HEVC even if VP9 fails
-          }
-
-          // HEVC (output to tmp folder)
-          setCurrentJob({ codec: 'hevc', quality: rendition.quality });
-          try {
-            const hevcPath = await transcodeRendition(
-              sourcePath,
-              tmpDir,
-              rendition,
-              'hevc',
-              hevcHWAccel,
-              mediaInfo,
-              settings,
-              {
-                onProgress: setCurrentProgress,
-                onPassComplete: () => {},
-                onComplete: () => {
-                  setCompletedJobs((prev) => [
-                    ...prev,
-                    { codec: 'hevc', quality: rendition.quality },
-                  ]);
-                },
-                onError: () => {},
-              },
-              skipIfExists
-            );
-            if (hevcPath) {
-              videoFiles.push({
-                path: hevcPath,
-                quality: rendition.quality,
-                codec: 'hevc',
-              });
-            }
-          } catch {
-            // Continue even if HEVC fails
+            outputPath,
+            mediaInfo,
+            renditions,
+            codecs,
+            hwAccel,
+            hybrid,
+            devMode,
+            preset,
+            ladderAnalysis: ladderAnalysis ?? undefined,
+            tonemap: tonemapOperator ? { operator: tonemapOperator } : undefined,
+            threads,
+            singleDecode,
+            chunked,
+          },
+          {
+            onStart: (total) => setTotalJobs(total),
+            onExtractStart: (kind) =>
+              kind === 'audio'
+                ? setExtractingAudio(true)
+                : setExtractingSubtitles(true),
+            onExtractEnd: (kind) =>
+              kind === 'audio'
+                ? setExtractingAudio(false)
+                : setExtractingSubtitles(false),
+            onJobStart: (job) => {
+              setRunningJobs((prev) => [...prev, { job, progress: null }]);
+            },
+            onProgress: (progress) => {
+              setRunningJobs((prev) =>
+                prev.map((running) =>
+                  isSameJob(running.job, {
+                    codec: progress.job.codec,
+                    quality: progress.job.rendition.quality,
+                  })
+                    ? { ...running, progress }
+                    : running
+                )
+              );
+            },
+            onPassComplete: () => {},
+            onJobComplete: (job) => {
+              setRunningJobs((prev) => prev.filter((running) => !isSameJob(running.job, job)));
+              setCompletedJobs((prev) => [...prev, job]);
+            },
+            onJobError: (job) => {
+              setRunningJobs((prev) => prev.filter((running) => !isSameJob(running.job, job)));
+            },
+            onPackagingStart: () => {
+              setRunningJobs([]);
+              setStep('packaging');
+              setPackagingMessage('Starting Shaka Packager...');
+            },
+            onPackagingProgress: (message) => setPackagingMessage(message),
+            onWarning: (message) => setWarnings((prev) => [...prev, message]),
           }
-        }
-
-        setCurrentJob(null);
-        setCurrentProgress(null);
-
-        // Package
-        setStep('packaging');
-
-        // Audio and subtitle files are in the tmp folder
-        const audioFiles = mediaInfo.audioStreams.map((s, idx) => ({
-          path: path.join(tmpDir, `audio_${s.language}_${idx}.mp4`),
-          language: s.language,
-          label: s.title,
-          index: idx,
-        }));
-
-        const subtitleFiles = mediaInfo.subtitleStreams.map((s) => {
-          const suffix =
-            s.type === 'forced'
-              ? '_forced'
-              : s.type === 'sdh'
-                ? '_sdh'
-                : '';
-          return {
-            path: path.join(tmpDir, `sub_${s.language}${suffix}.vtt`),
-            language: s.language,
-            label: s.title,
-            type: s.type,
-            isDefault: s.isDefault,
-          };
-        });
-
-        const inputs = preparePackagerInputs(
-          videoFiles,
-          audioFiles,
-          subtitleFiles
         );
 
-        const output = await runPackager(inputs, outputPath, {
-          onStart: () => setPackagingMessage('Starting Shaka Packager...'),
-          onProgress: setPackagingMessage,
-          onComplete: (out) => {
-            setPackagerOutput(out);
-            setStep('complete');
-          },
-          onError: (err) => {
-            setError(`Packaging failed: ${err}`);
-            setStep('error');
-          },
-        }, devMode);
-
-        await logger.close();
-        setPackagerOutput(output);
+        setPackagerOutput(result.packagerOutput);
         setStep('complete');
       } catch (err) {
         const logger = getLogger();
@@ -458,9 +468,37 @@ export function App({ devMode }: AppProps) {
         setStep('error');
       }
     },
-    [mediaInfo, outputPath, sourcePath, availableRenditions, devMode]
+    [
+      mediaInfo,
+      outputPath,
+      sourcePath,
+      availableRenditions,
+      devMode,
+      preset,
+      ladderAnalysis,
+      tonemapOperator,
+      threads,
+      singleDecode,
+      chunked,
+      codecs,
+    ]
   );
 
+  // Start once the chosen renditions and hardware are in state; calling
+  // startTranscoding from the selection callbacks would run it with the
+  // state of the render before
+  const pipelineStarted = useRef(false);
+  useEffect(() => {
+    if (step !== 'transcoding' || !selectedHWAccel || pipelineStarted.current) return;
+    pipelineStarted.current = true;
+    // Check if the hybrid option was selected
+    const isHybrid = selectedHWAccel.displayName.startsWith('Hybrid');
+    const start = async () => {
+      await startTranscoding(selectedRenditions, selectedHWAccel, isHybrid ? hybridConfig : null);
+    };
+    start();
+  }, [step, selectedHWAccel, selectedRenditions, hybridConfig, startTranscoding]);
+
   // Render based on step
   return (
     <Box flexDirection="column" padding={1}>
@@ -471,6 +509,9 @@ export function App({ devMode }: AppProps) {
         {devMode && (
           <Text color="yellow"> [DEV MODE]</Text>
         )}
+        {preset && (
+          <Text color="cyan"> [preset: {preset.name}]</Text>
+        )}
       </Box>
 
       {(step === 'checking-tools' || step === 'installing-tools') && (
@@ -497,6 +538,28 @@ export function App({ devMode }: AppProps) {
         <MediaInfo info={mediaInfo} onContinue={handleMediaInfoContinue} />
       )}
 
+      {step === 'selecting-tonemap' && (
+        <TonemapSelect
+          tonemap={configuredTonemap}
+          preview={tonemapPreview}
+          previewError={previewError}
+          onPreview={handleTonemapPreview}
+          onSubmit={handleTonemapSelect}
+        />
+      )}
+
+      {step === 'previewing-tonemap' && (
+        <TonemapPreviewing done={previewProgress.done} total={previewProgress.total} />
+      )}
+
+      {step === 'analyzing-ladder' && (
+        <LadderAnalyzing done={analysisProgress.done} total={analysisProgress.total} />
+      )}
+
+      {step === 'reviewing-ladder' && ladderAnalysis && (
+        <LadderReview analysis={ladderAnalysis} onContinue={handleLadderContinue} />
+      )}
+
       {step === 'selecting-renditions' && (
         <RenditionSelect
           renditions={availableRenditions}
@@ -510,12 +573,17 @@ export function App({ devMode }: AppProps) {
 
       {step === 'transcoding' && (
         <Progress
-          currentJob={currentJob}
-          progress={currentProgress}
+          runningJobs={runningJobs}
           completedJobs={completedJobs}
           totalJobs={totalJobs}
           extractingSubtitles={extractingSubtitles}
           extractingAudio={extractingAudio}
+          warnings={warnings}
+          paused={paused}
+          cancelling={cancelling}
+          onTogglePause={handleTogglePause}
+          onSkip={skipJob}
+          onCancel={handleCancel}
         />
       )}
 
@@ -529,3 +597,7 @@ export function App({ devMode }: AppProps) {
     </Box>
   );
 }
+
+function isSameJob(a: RenditionJob, b: RenditionJob): boolean {
+  return a.codec === b.codec && a.quality === b.quality;
+}
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Box, Text, useInput } from 'ink';
+import { Spinner } from '@inkjs/ui';
+import type { LadderAnalysis } from '../lib/types.js';
+
+interface LadderAnalyzingProps {
+  done: number;
+  total: number;
+}
+
+export function LadderAnalyzing({ done, total }: LadderAnalyzingProps) {
+  return (
+    <Box flexDirection="column" gap={1}>
+      <Text bold color="cyan">
+        Per-title Analysis
+      </Text>
+      <Box marginLeft={2}>
+        <Spinner
+          label={`Running sample encodes${total > 0 ? ` (${done}/${total})` : ''}...`}
+        />
+      </Box>
+    </Box>
+  );
+}
+
+interface LadderReviewProps {
+  analysis: LadderAnalysis;
+  onContinue: () => void;
+}
+
+export function LadderReview({ analysis, onContinue }: LadderReviewProps) {
+  useInput((_input, key) => {
+    if (key.return) onContinue();
+  });
+
+  return (
+    <Box flexDirection="column" gap={1}>
+      <Text bold color="cyan">
+        Per-title Ladder
+      </Text>
+      <Text dimColor>
+        {analysis.samples} sample(s) of {analysis.sampleSeconds}s per rung
+      </Text>
+
+      <Box flexDirection="column" marginLeft={2}>
+        {analysis.decisions.map((decision) => {
+          const rendition = analysis.renditions.find(
+            (r) => r.quality === decision.quality
+          );
+          return (
+            <Box key={decision.quality} flexDirection="column">
+              <Text>
+                <Text color={decision.kept ? 'green' : 'red'}>
+                  {decision.kept ? '✓' : '✗'}
+                </Text>{' '}
+                <Text bold>{decision.quality}</Text>
+                {rendition && (
+                  <Text color="white">
+                    {' '}
+                    HEVC {rendition.hevcBitrate}k / VP9 {rendition.vp9Bitrate}k / AV1{' '}
+                    {rendition.av1Bitrate}k / H.264 {rendition.h264Bitrate}k
+                  </Text>
+                )}
+              </Text>
+              <Box marginLeft={4}>
+                <Text dimColor>{decision.reason}</Text>
+              </Box>
+            </Box>
+          );
+        })}
+      </Box>
+
+      <Text dimColor>Press enter to continue</Text>
+    </Box>
+  );
+}
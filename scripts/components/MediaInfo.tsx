@@ -1,7 +1,10 @@
 import React from 'react';
 import { Box, Text } from 'ink';
 import type { MediaInfo as MediaInfoType } from '../lib/types.js';
-import { formatDuration, formatFileSize } from '../lib/probe.js';
+import { formatDuration, formatFileSize, formatVideoGeometry } from '../lib/probe.js';
+import { formatScanType } from '../lib/deinterlace.js';
+import { formatFrameRate } from '../lib/frame-rate.js';
+import { formatCrop } from '../lib/crop.js';
 
 interface MediaInfoProps {
   info: MediaInfoType;
@@ -40,9 +43,7 @@ export function MediaInfo({ info, onContinue }: MediaInfoProps) {
       <Box flexDirection="column" marginLeft={2}>
         <Text>
           Resolution:{' '}
-          <Text color="white">
-            {info.video.width}x{info.video.height}
-          </Text>
+          <Text color="white">{formatVideoGeometry(info.video)}</Text>
         </Text>
         <Text>
           Codec:{' '}
@@ -51,7 +52,20 @@ export function MediaInfo({ info, onContinue }: MediaInfoProps) {
           </Text>
         </Text>
         <Text>
-          Frame Rate: <Text color="white">{info.video.frameRate.toFixed(2)} fps</Text>
+          Frame Rate:{' '}
+          <Text color={info.video.variableFrameRate ? 'yellow' : 'white'}>
+            {formatFrameRate(info.video)}
+          </Text>
+        </Text>
+        <Text>
+          Scan:{' '}
+          <Text color={info.video.scanType !== 'progressive' ? 'yellow' : 'white'}>
+            {formatScanType(info.video)}
+          </Text>
+        </Text>
+        <Text>
+          Crop:{' '}
+          <Text color={info.video.crop ? 'yellow' : 'white'}>{formatCrop(info.video)}</Text>
         </Text>
         <Text>
           HDR:{' '}
@@ -61,6 +75,16 @@ export function MediaInfo({ info, onContinue }: MediaInfoProps) {
         </Text>
       </Box>
 
+      {info.warnings.length > 0 && (
+        <Box flexDirection="column" marginTop={1}>
+          {info.warnings.map((warning, idx) => (
+            <Text key={idx} color="yellow">
+              ⚠ {warning}
+            </Text>
+          ))}
+        </Box>
+      )}
+
       {info.audioStreams.length > 0 && (
         <>
           <Box marginTop={1}>
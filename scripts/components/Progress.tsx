@@ -1,38 +1,62 @@
-import React from 'react';
-import { Box, Text } from 'ink';
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
 import { ProgressBar, Spinner } from '@inkjs/ui';
-import type { TranscodeProgress, RenditionQuality } from '../lib/types.js';
+import type { RenditionJob, RunningJob } from '../lib/types.js';
 
 interface ProgressProps {
-  currentJob: {
-    codec: 'vp9' | 'hevc';
-    quality: RenditionQuality;
-  } | null;
-  progress: TranscodeProgress | null;
-  completedJobs: Array<{
-    codec: 'vp9' | 'hevc';
-    quality: RenditionQuality;
-  }>;
+  runningJobs: RunningJob[];
+  completedJobs: RenditionJob[];
   totalJobs: number;
   extractingSubtitles: boolean;
   extractingAudio: boolean;
+  warnings: string[];
+  paused: boolean;
+  cancelling: boolean;
+  onTogglePause: () => void;
+  onSkip: (job: RenditionJob) => void;
+  onCancel: () => void;
 }
 
 export function Progress({
-  currentJob,
-  progress,
+  runningJobs,
   completedJobs,
   totalJobs,
   extractingSubtitles,
   extractingAudio,
+  warnings,
+  paused,
+  cancelling,
+  onTogglePause,
+  onSkip,
+  onCancel,
 }: ProgressProps) {
   const overallProgress =
     totalJobs > 0 ? (completedJobs.length / totalJobs) * 100 : 0;
 
+  // The job 's' skips; stays in range as jobs finish
+  const [selected, setSelected] = useState(0);
+  const selectedIdx = Math.min(selected, Math.max(runningJobs.length - 1, 0));
+
+  useInput((input, key) => {
+    if (cancelling) return;
+    if (key.upArrow) {
+      setSelected(Math.max(selectedIdx - 1, 0));
+    } else if (key.downArrow) {
+      setSelected(Math.min(selectedIdx + 1, runningJobs.length - 1));
+    } else if (input === 'p') {
+      onTogglePause();
+    } else if (input === 's' && runningJobs[selectedIdx]) {
+      onSkip(runningJobs[selectedIdx].job);
+    } else if (input === 'c') {
+      onCancel();
+    }
+  });
+
   return (
     <Box flexDirection="column" gap={1}>
       <Text bold color="cyan">
         Transcoding Progress
+        {paused && <Text color="yellow"> [PAUSED]</Text>}
       </Text>
 
       {/* Overall progress */}
@@ -45,6 +69,16 @@ export function Progress({
         </Box>
       </Box>
 
+      {warnings.length > 0 && (
+        <Box flexDirection="column" marginLeft={2}>
+          {warnings.map((warning, idx) => (
+            <Text key={idx} color="yellow">
+              ⚠ {warning}
+            </Text>
+          ))}
+        </Box>
+      )}
+
       {/* Pre-processing */}
       {(extractingSubtitles || extractingAudio) && (
         <Box marginTop={1} marginLeft={2}>
@@ -55,23 +89,47 @@ export function Progress({
         </Box>
       )}
 
-      {/* Current job */}
-      {currentJob && progress && (
-        <Box flexDirection="column" marginTop={1} marginLeft={2}>
-          <Text bold>
-            Current: {currentJob.quality} ({currentJob.codec.toUpperCase()})
-            {progress.job.settings.passes === 2 &&
+      {/* Running jobs, in the order the scheduler started them */}
+      {runningJobs.map(({ job, progress }, idx) => (
+        <Box
+          key={`${job.quality}-${job.codec}`}
+          flexDirection="column"
+          marginTop={1}
+          marginLeft={2}
+        >
+          <Text bold color={idx === selectedIdx && runningJobs.length > 1 ? 'cyan' : undefined}>
+            {idx === selectedIdx && runningJobs.length > 1 ? '› ' : ''}
+            {job.quality} ({job.codec.toUpperCase()})
+            {progress?.job.settings.passes === 2 &&
+              job.codec === 'vp9' &&
               ` - Pass ${progress.pass}/2`}
           </Text>
-          <Box width={50}>
-            <ProgressBar value={Math.round(progress.percent)} />
-          </Box>
-          <Text dimColor>
-            Frame: {progress.frame}/{progress.totalFrames} | FPS:{' '}
-            {progress.fps.toFixed(1)} | Speed: {progress.speed.toFixed(2)}x |
-            ETA: {formatEta(progress.eta)}
-          </Text>
+          {progress ? (
+            <>
+              <Box width={50}>
+                <ProgressBar value={Math.round(progress.percent)} />
+              </Box>
+              <Text dimColor>
+                Frame: {progress.frame}/{progress.totalFrames} | FPS:{' '}
+                {progress.fps.toFixed(1)} | Speed: {progress.speed.toFixed(2)}x |
+                ETA: {formatEta(progress.eta)}
+              </Text>
+            </>
+          ) : (
+            <Spinner label="Starting..." />
+          )}
         </Box>
+      ))}
+
+      {cancelling ? (
+        <Box marginLeft={2}>
+          <Spinner label="Cancelling: stopping ffmpeg and removing partial files..." />
+        </Box>
+      ) : (
+        <Text dimColor>
+          p {paused ? 'resume' : 'pause'} | s skip
+          {runningJobs.length > 1 ? ' (↑/↓ to select)' : ''} | c cancel (resume later with --resume)
+        </Text>
       )}
 
       {/* Completed jobs */}
@@ -0,0 +1,95 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { Select, Spinner } from '@inkjs/ui';
+import type { TonemapOperator, TonemapPreview, TonemapSettings } from '../lib/types.js';
+import { TONEMAP_OPERATORS, formatTonemap } from '../lib/tonemap.js';
+import { formatDuration } from '../lib/probe.js';
+
+interface TonemapPreviewingProps {
+  done: number;
+  total: number;
+}
+
+export function TonemapPreviewing({ done, total }: TonemapPreviewingProps) {
+  return (
+    <Box flexDirection="column" gap={1}>
+      <Text bold color="cyan">
+        Tone-mapping Preview
+      </Text>
+      <Box marginLeft={2}>
+        <Spinner
+          label={`Rendering preview frames${total > 0 ? ` (${done}/${total})` : ''}...`}
+        />
+      </Box>
+    </Box>
+  );
+}
+
+interface TonemapSelectProps {
+  tonemap: TonemapSettings; // From the preset, or the built-in default
+  preview: TonemapPreview | null;
+  previewError: string | null;
+  onPreview: () => void;
+  onSubmit: (operator: TonemapOperator) => void;
+}
+
+const PREVIEW_VALUE = 'preview';
+
+export function TonemapSelect({
+  tonemap,
+  preview,
+  previewError,
+  onPreview,
+  onSubmit,
+}: TonemapSelectProps) {
+  // Configured operator first so enter keeps it
+  const operators = [
+    tonemap.operator,
+    ...TONEMAP_OPERATORS.filter((operator) => operator !== tonemap.operator),
+  ];
+  const options = [
+    ...operators.map((operator) => ({
+      label: operator === tonemap.operator ? `${operator} (configured)` : operator,
+      value: operator,
+    })),
+    ...(preview ? [] : [{ label: 'Render preview frames', value: PREVIEW_VALUE }]),
+  ];
+
+  const handleChange = (value: string) => {
+    if (value === PREVIEW_VALUE) {
+      onPreview();
+    } else {
+      onSubmit(value as TonemapOperator);
+    }
+  };
+
+  return (
+    <Box flexDirection="column" gap={1}>
+      <Text bold color="cyan">
+        Tone-mapping for SDR renditions
+      </Text>
+      <Text dimColor>Configured: {formatTonemap(tonemap)}</Text>
+
+      {preview && (
+        <Box flexDirection="column" marginLeft={2}>
+          <Text>Left to right: {preview.operators.join(', ')}</Text>
+          {preview.frames.map((frame) => (
+            <Text key={frame.path}>
+              <Text color="white">{formatDuration(frame.timestamp)}</Text>{' '}
+              <Text dimColor>{frame.path}</Text>
+            </Text>
+          ))}
+        </Box>
+      )}
+
+      {previewError && (
+        <Box marginLeft={2}>
+          <Text color="yellow">⚠ Preview failed: {previewError}</Text>
+        </Box>
+      )}
+
+      <Text dimColor>Use arrow keys to navigate, enter to select</Text>
+      <Select options={options} onChange={handleChange} />
+    </Box>
+  );
+}
@@ -0,0 +1,171 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import type {
+  CLIArgs,
+  FailedJob,
+  RenditionJob,
+  SourceJob,
+  SourceStatus,
+} from './types.js';
+import { detectHWAcceleration } from './hw-detect.js';
+import { loadJobFile, planFromGlob, type BatchPlan } from './job-file.js';
+import {
+  checkRequiredTools,
+  createEmitter,
+  runSource,
+  EXIT_FAILURE,
+  EXIT_OK,
+  EXIT_USAGE,
+} from './headless.js';
+
+export interface BatchSourceReport {
+  inputPath: string;
+  outputPath: string | null;
+  status: SourceStatus;
+  error?: string;
+  completed: RenditionJob[];
+  failed: FailedJob[];
+  hlsMasterPlaylist?: string;
+  dashManifest?: string;
+  elapsed: number; // seconds
+}
+
+export interface BatchReport {
+  startedAt: string;
+  finishedAt: string;
+  elapsed: number; // seconds
+  total: number;
+  succeeded: number;
+  partial: number;
+  failed: number;
+  sources: BatchSourceReport[];
+}
+
+function defaultReportPath(): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return path.resolve(`batch_report_${timestamp}.json`);
+}
+
+async function writeReport(reportPath: string, report: BatchReport): Promise<void> {
+  await fs.mkdir(path.dirname(reportPath), { recursive: true });
+  await Bun.write(reportPath, `${JSON.stringify(report, null, 2)}\n`);
+}
+
+/**
+ * Process many sources one after another (--job or --glob). A failing
+ * source never stops the batch; the exit code is non-zero if any source or
+ * rendition failed. An aggregate report is written after every source so a
+ * crashed batch still leaves a record of what finished.
+ */
+export async function runBatch(args: CLIArgs): Promise<number> {
+  const emit = createEmitter(args.json);
+  const startedAt = new Date();
+
+  let plan: BatchPlan;
+  try {
+    plan = args.jobFile
+      ? await loadJobFile(args.jobFile, args)
+      : await planFromGlob(args.sourceGlob!, args);
+  } catch (err) {
+    emit({
+      type: 'error',
+      message: err instanceof Error ? err.message : 'Unknown error',
+      exitCode: EXIT_USAGE,
+    });
+    return EXIT_USAGE;
+  }
+
+  if (!(await checkRequiredTools(emit))) {
+    return EXIT_FAILURE;
+  }
+
+  const reportPath = plan.reportPath ?? defaultReportPath();
+  const availableHWAccel = await detectHWAcceleration();
+  const report: BatchReport = {
+    startedAt: startedAt.toISOString(),
+    finishedAt: startedAt.toISOString(),
+    elapsed: 0,
+    total: plan.sources.length,
+    succeeded: 0,
+    partial: 0,
+    failed: 0,
+    sources: [],
+  };
+
+  for (let index = 0; index < plan.sources.length; index++) {
+    const source: SourceJob = plan.sources[index];
+    const sourceStartedAt = Date.now();
+    const total = plan.sources.length;
+    emit({ type: 'source_start', index, total, inputPath: source.inputPath });
+
+    let entry: BatchSourceReport;
+    try {
+      const result = await runSource(source, emit, availableHWAccel);
+      entry = {
+        inputPath: source.inputPath,
+        outputPath: result.outputPath,
+        status: result.failedJobs.length > 0 ? 'partial' : 'success',
+        completed: result.completedJobs,
+        failed: result.failedJobs,
+        hlsMasterPlaylist: result.packagerOutput.hlsMasterPlaylist,
+        dashManifest: result.packagerOutput.dashManifest,
+        elapsed: 0,
+      };
+    } catch (err) {
+      entry = {
+        inputPath: source.inputPath,
+        outputPath: source.outputPath ?? null,
+        status: 'failed',
+        error: err instanceof Error ? err.message : 'Unknown error',
+        completed: [],
+        failed: [],
+        elapsed: 0,
+      };
+    }
+    entry.elapsed = Math.round((Date.now() - sourceStartedAt) / 1000);
+
+    emit({
+      type: 'source_end',
+      index,
+      total,
+      inputPath: source.inputPath,
+      status: entry.status,
+      error: entry.error,
+    });
+
+    report.sources.push(entry);
+    if (entry.status === 'success') report.succeeded++;
+    else if (entry.status === 'partial') report.partial++;
+    else report.failed++;
+    report.finishedAt = new Date().toISOString();
+    report.elapsed = Math.round((Date.now() - startedAt.getTime()) / 1000);
+    await writeReport(reportPath, report);
+  }
+
+  const exitCode = report.succeeded === report.total ? EXIT_OK : EXIT_FAILURE;
+  emit({
+    type: 'batch_summary',
+    total: report.total,
+    succeeded: report.succeeded,
+    partial: report.partial,
+    failed: report.failed,
+    reportPath,
+    exitCode,
+    elapsed: report.elapsed,
+  });
+
+  if (!args.json) {
+    for (const entry of report.sources) {
+      const mark = entry.status === 'success' ? '✓' : '✗';
+      const detail =
+        entry.status === 'failed'
+          ? entry.error?.split('\n')[0]
+          : entry.status === 'partial'
+            ? `${entry.failed.length} rendition(s) failed`
+            : entry.outputPath;
+      console.log(`  ${mark} ${path.basename(entry.inputPath)}: ${detail}`);
+    }
+  }
+
+  return exitCode;
+}
@@ -0,0 +1,478 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import type {
+  HWAccelInfo,
+  MediaInfo,
+  Rendition,
+  RenditionJob,
+  TranscodeSettings,
+  VideoCodec,
+  VideoRange,
+} from './types.js';
+import { getLogger } from './logger.js';
+import { verifyHDROutput } from './probe.js';
+import { carriesDynamicMetadata, type DynamicMetadata } from './dynamic-hdr.js';
+import { getRenditionFrameRate } from './frame-rate.js';
+import { CancelledError } from './run-control.js';
+import {
+  completeOutput,
+  isOutputComplete,
+  startOutput,
+  withoutThreadArgs,
+  type JournalInputs,
+} from './journal.js';
+import {
+  getOutputFileName,
+  getVideoRange,
+  planTranscode,
+  runFFmpeg,
+  usesHWEncoder,
+  type TranscodeCallbacks,
+} from './transcoder.js';
+
+/**
+ * Chunked encoding (--chunked).
+ *
+ * A two-pass libvpx-vp9 encode of a feature film runs for hours in one
+ * process that uses a handful of cores at best. In this mode the source is
+ * cut into chunks of about a minute, a pool of workers encodes the chunks
+ * side by side, and the chunk files are joined with the concat demuxer and
+ * stream copy (nothing is encoded twice) into the rendition's output.
+ *
+ * Chunks start on the keyframe grid of keyframes.ts rather than at scene
+ * cuts: forced keyframes are counted from each chunk's first frame, so
+ * every keyframe stays on a segment boundary. Each chunk gets the
+ * rendition's own encoder settings and, with two passes, its own first
+ * pass, so the rate control targets match across the joined file.
+ *
+ * Finished chunk passes are recorded in a state file next to the chunks;
+ * after a crash only the rest are encoded. Only software encoders are
+ * chunked, and not rungs carrying HDR10+ or Dolby Vision, whose metadata
+ * follows the frames of the whole source.
+ */
+
+export const DEFAULT_CHUNK_DURATION = 60; // Seconds, rounded to the keyframe grid
+// Threads per worker; libvpx and x265 gain little from more on one chunk
+const CHUNK_WORKER_THREADS = 2;
+const STATE_FILE = 'chunks.json';
+const CONCAT_LIST = 'chunks.txt';
+
+export class ChunkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChunkError';
+  }
+}
+
+export interface ChunkRange {
+  start: number; // Seconds
+  duration: number;
+}
+
+/**
+ * One ffmpeg run over one chunk, as handed to a worker. Plain JSON, so a
+ * remote worker can receive it over any transport; the paths must then be
+ * on storage that both sides see.
+ */
+export interface ChunkJob {
+  id: string; // e.g. "1080p_vp9/0003/1"
+  rendition: RenditionJob;
+  chunk: number;
+  pass: 1 | 2;
+  totalFrames: number;
+  args: string[]; // ffmpeg arguments (without the binary)
+  outputPath: string; // The chunk file, written by the last pass
+}
+
+export interface ChunkWorker {
+  name: string;
+  // Resolves once the job's output is written; reports the frames done
+  run: (job: ChunkJob, onFrame: (frame: number) => void) => Promise<void>;
+}
+
+export interface ChunkedTranscodePlan {
+  outputPath: string;
+  chunkDir: string;
+  totalFrames: number;
+  videoRange: VideoRange;
+  ranges: ChunkRange[];
+  jobs: ChunkJob[]; // Every chunk's first pass before any second pass
+  chunkPaths: string[];
+  listPath: string; // Concat demuxer input listing chunkPaths
+  joinArgs: string[];
+}
+
+interface ChunkState {
+  fingerprint: string; // Of every job's arguments
+  done: string[]; // Job ids
+}
+
+/**
+ * Split the source into chunks on multiples of the keyframe interval. The
+ * remainder is added to the last chunk rather than encoded as a short one.
+ */
+export function planChunks(
+  duration: number,
+  keyframeInterval: number,
+  chunkDuration: number = DEFAULT_CHUNK_DURATION
+): ChunkRange[] {
+  const step = Math.max(Math.round(chunkDuration / keyframeInterval), 1) * keyframeInterval;
+  const count = Math.max(Math.round(duration / step), 1);
+  return Array.from({ length: count }, (_, idx) => ({
+    start: idx * step,
+    duration: idx === count - 1 ? duration - idx * step : step,
+  }));
+}
+
+/**
+ * Whether the rendition/codec pair can be encoded in chunks: a software
+ * encoder, no per-frame HDR metadata, and a source long enough to split.
+ */
+export function canChunk(
+  rendition: Rendition,
+  codec: VideoCodec,
+  hwAccel: HWAccelInfo,
+  mediaInfo: MediaInfo,
+  dynamicMetadata: DynamicMetadata | null,
+  keyframeInterval: number
+): boolean {
+  if (usesHWEncoder(codec, hwAccel)) return false;
+  const videoRange = getVideoRange(rendition, codec, hwAccel, mediaInfo.video);
+  if (dynamicMetadata && carriesDynamicMetadata(codec, hwAccel, videoRange)) return false;
+  return planChunks(mediaInfo.duration, keyframeInterval).length > 1;
+}
+
+// Workers for a chunked encode given the whole CPU thread budget
+export function getChunkWorkers(threadBudget: number): number {
+  return Math.max(Math.floor(threadBudget / CHUNK_WORKER_THREADS), 1);
+}
+
+export function getChunkDir(outputDir: string, rendition: Rendition, codec: VideoCodec): string {
+  return path.join(outputDir, 'chunks', `${rendition.quality}_${codec}`);
+}
+
+// Quotes are escaped the way the concat demuxer reads them
+export function buildConcatList(chunkPaths: string[]): string {
+  return chunkPaths.map((chunkPath) => `file '${chunkPath.replace(/'/g, "'\\''")}'\n`).join('');
+}
+
+export function buildConcatArgs(listPath: string, outputPath: string): string[] {
+  return [
+    '-y',
+    '-f',
+    'concat',
+    '-safe',
+    '0',
+    '-i',
+    listPath,
+    '-map',
+    '0:v:0',
+    '-c',
+    'copy',
+    outputPath,
+  ];
+}
+
+/**
+ * Build every chunk encode and the join for one rendition/codec pair
+ * without running anything. Used by transcodeChunked and by --dry-run.
+ */
+export function planChunkedTranscode(
+  inputPath: string,
+  outputDir: string,
+  rendition: Rendition,
+  codec: VideoCodec,
+  hwAccel: HWAccelInfo,
+  mediaInfo: MediaInfo,
+  settings: TranscodeSettings,
+  keyframeInterval: number,
+  threadBudget: number
+): ChunkedTranscodePlan {
+  const outputPath = path.join(outputDir, getOutputFileName(rendition, codec));
+  const chunkDir = getChunkDir(outputDir, rendition, codec);
+  const ext = path.extname(outputPath);
+  const ranges = planChunks(mediaInfo.duration, keyframeInterval);
+  const threads = Math.min(CHUNK_WORKER_THREADS, threadBudget);
+
+  const chunkPaths: string[] = [];
+  const jobs: ChunkJob[] = [];
+  ranges.forEach((range, idx) => {
+    const name = `chunk_${idx.toString().padStart(4, '0')}`;
+    const chunkPath = path.join(chunkDir, `${name}${ext}`);
+    const plan = planTranscode(
+      inputPath,
+      outputDir,
+      rendition,
+      codec,
+      hwAccel,
+      mediaInfo,
+      settings,
+      keyframeInterval,
+      null,
+      threads,
+      { ...range, outputPath: chunkPath, passLogFile: path.join(chunkDir, name) }
+    );
+    chunkPaths.push(chunkPath);
+    for (const command of plan.commands) {
+      jobs.push({
+        id: `${rendition.quality}_${codec}/${name}/${command.pass}`,
+        rendition: { codec, quality: rendition.quality },
+        chunk: idx,
+        pass: command.pass,
+        totalFrames: plan.totalFrames,
+        args: command.args,
+        outputPath: chunkPath,
+      });
+    }
+  });
+  jobs.sort((a, b) => a.pass - b.pass || a.chunk - b.chunk);
+
+  const listPath = path.join(chunkDir, CONCAT_LIST);
+  return {
+    outputPath,
+    chunkDir,
+    totalFrames: Math.ceil(mediaInfo.duration * getRenditionFrameRate(mediaInfo.video, rendition)),
+    videoRange: getVideoRange(rendition, codec, hwAccel, mediaInfo.video),
+    ranges,
+    jobs,
+    chunkPaths,
+    listPath,
+    joinArgs: buildConcatArgs(listPath, outputPath),
+  };
+}
+
+// Stats lines pile up in the buffer; the last one is current
+function parseStatsFrame(stats: string): number | null {
+  const matches = [...stats.matchAll(/frame=\s*(\d+)/g)];
+  const last = matches[matches.length - 1];
+  return last ? parseInt(last[1], 10) : null;
+}
+
+/**
+ * Worker running jobs as ffmpeg processes on this machine. A remote worker
+ * implements the same interface by sending the job to a host and relaying
+ * its progress.
+ */
+export function createLocalWorker(name: string): ChunkWorker {
+  return {
+    name,
+    run: (job, onFrame) =>
+      runFFmpeg(
+        job.args,
+        (stats) => {
+          const frame = parseStatsFrame(stats);
+          if (frame !== null) onFrame(frame);
+        },
+        { jobs: [job.rendition], outputs: [job.outputPath] }
+      ),
+  };
+}
+
+/**
+ * Hand the jobs to the workers, each taking the next job when it is free.
+ * After a failure no new job is started; the running ones finish and the
+ * first error is thrown (a CancelledError as it is).
+ */
+export async function runChunkJobs(
+  jobs: ChunkJob[],
+  workers: ChunkWorker[],
+  onFrame: (job: ChunkJob, frame: number) => void,
+  onDone: (job: ChunkJob) => Promise<void>
+): Promise<void> {
+  const queue = [...jobs];
+  const failures: Error[] = [];
+
+  await Promise.all(
+    workers.map(async (worker) => {
+      while (failures.length === 0) {
+        const job = queue.shift();
+        if (!job) return;
+        try {
+          await worker.run(job, (frame) => onFrame(job, frame));
+          await onDone(job);
+        } catch (err) {
+          const error = err instanceof Error ? err.message : 'Unknown error';
+          failures.push(
+            err instanceof CancelledError
+              ? err
+              : new ChunkError(`Chunk ${job.id} failed on ${worker.name}: ${error}`)
+          );
+        }
+      }
+    })
+  );
+
+  if (failures.length > 0) {
+    throw failures[0];
+  }
+}
+
+// Thread counts aside, like the output journal, so a resume with another
+// --threads keeps the finished chunks
+function getFingerprint(jobs: ChunkJob[]): string {
+  return Bun.hash(JSON.stringify(jobs.map((job) => withoutThreadArgs(job.args)))).toString(16);
+}
+
+// State from an earlier run of the same jobs, or a fresh one
+async function loadState(statePath: string, fingerprint: string): Promise<ChunkState> {
+  try {
+    const state = (await Bun.file(statePath).json()) as ChunkState;
+    if (state.fingerprint === fingerprint) {
+      return { fingerprint, done: state.done ?? [] };
+    }
+  } catch {
+    // Missing or unreadable: start over
+  }
+  return { fingerprint, done: [] };
+}
+
+async function saveState(statePath: string, state: ChunkState): Promise<void> {
+  // Write to a temp file and rename so a crash never leaves a torn state file
+  const tmpPath = `${statePath}.tmp`;
+  await Bun.write(tmpPath, `${JSON.stringify(state, null, 2)}\n`);
+  await fs.rename(tmpPath, statePath);
+}
+
+/**
+ * Encode one rendition in chunks on `workerCount` local workers and join
+ * them. Progress covers all chunks of the current pass. Throws after
+ * reporting through onError, like transcodeRendition.
+ */
+export async function transcodeChunked(
+  inputPath: string,
+  outputDir: string,
+  rendition: Rendition,
+  codec: VideoCodec,
+  hwAccel: HWAccelInfo,
+  mediaInfo: MediaInfo,
+  settings: TranscodeSettings,
+  keyframeInterval: number,
+  callbacks: TranscodeCallbacks,
+  threadBudget: number
+): Promise<string> {
+  const logger = getLogger();
+  const plan = planChunkedTranscode(
+    inputPath,
+    outputDir,
+    rendition,
+    codec,
+    hwAccel,
+    mediaInfo,
+    settings,
+    keyframeInterval,
+    threadBudget
+  );
+  const { outputPath } = plan;
+  const journalInputs: JournalInputs = {
+    sourcePath: inputPath,
+    commands: [...plan.jobs.map((job) => job.args), plan.joinArgs],
+  };
+  const workerCount = getChunkWorkers(threadBudget);
+
+  await logger.section(`Transcoding ${rendition.quality} ${codec.toUpperCase()} (chunked)`);
+  await logger.info(`Output: ${outputPath}`);
+
+  if (await isOutputComplete(outputPath, journalInputs)) {
+    await logger.info(`SKIPPED: Completed by an earlier run with the same settings`);
+    callbacks.onComplete(codec, rendition.quality, outputPath);
+    return outputPath;
+  }
+
+  try {
+    await startOutput(outputPath, journalInputs);
+    await fs.mkdir(plan.chunkDir, { recursive: true });
+    const statePath = path.join(plan.chunkDir, STATE_FILE);
+    const state = await loadState(statePath, getFingerprint(plan.jobs));
+    const done = new Set(state.done);
+    if (done.size > 0) {
+      await logger.info(`Resuming: ${done.size} of ${plan.jobs.length} chunk passes done`);
+    }
+    await logger.info(
+      `${plan.ranges.length} chunks of ${plan.ranges[0].duration.toFixed(3)}s on ` +
+        `${workerCount} workers`
+    );
+
+    const workers = Array.from({ length: workerCount }, (_, idx) =>
+      createLocalWorker(`local-${idx + 1}`)
+    );
+    const frameRate = getRenditionFrameRate(mediaInfo.video, rendition);
+    const passes = [...new Set(plan.jobs.map((job) => job.pass))];
+
+    for (const pass of passes) {
+      const passJobs = plan.jobs.filter((job) => job.pass === pass);
+      const frames = new Map(
+        passJobs.map((job) => [job.id, done.has(job.id) ? job.totalFrames : 0])
+      );
+      const resumedFrames = [...frames.values()].reduce((sum, count) => sum + count, 0);
+      const startedAt = Date.now();
+
+      const report = () => {
+        const frame = [...frames.values()].reduce((sum, count) => sum + count, 0);
+        const elapsed = (Date.now() - startedAt) / 1000;
+        const fps = elapsed > 0 ? (frame - resumedFrames) / elapsed : 0;
+        callbacks.onProgress({
+          job: {
+            rendition,
+            codec,
+            inputPath,
+            outputPath,
+            hwAccel,
+            settings,
+            sourceInfo: mediaInfo,
+          },
+          pass,
+          frame,
+          totalFrames: plan.totalFrames,
+          fps,
+          speed: fps / frameRate,
+          percent: Math.min((frame / plan.totalFrames) * 100, 100),
+          eta: fps > 0 ? Math.max(plan.totalFrames - frame, 0) / fps : 0,
+        });
+      };
+
+      await runChunkJobs(
+        passJobs.filter((job) => !done.has(job.id)),
+        workers,
+        (job, frame) => {
+          frames.set(job.id, Math.min(frame, job.totalFrames));
+          report();
+        },
+        async (job) => {
+          frames.set(job.id, job.totalFrames);
+          done.add(job.id);
+          await saveState(statePath, { ...state, done: [...done] });
+        }
+      );
+
+      await logger.info(`Pass ${pass} completed successfully`);
+      callbacks.onPassComplete(pass, codec, rendition.quality);
+    }
+
+    await Bun.write(plan.listPath, buildConcatList(plan.chunkPaths));
+    await runFFmpeg(plan.joinArgs, () => {}, {
+      jobs: [{ codec, quality: rendition.quality }],
+      outputs: [outputPath],
+    });
+
+    if (plan.videoRange !== 'SDR') {
+      const problems = await verifyHDROutput(outputPath, plan.videoRange);
+      if (problems.length > 0) {
+        throw new Error(`Output is not ${plan.videoRange} HDR: ${problems.join('; ')}`);
+      }
+      await logger.info(`HDR verified: 10-bit BT.2020 ${plan.videoRange}`);
+    }
+    await completeOutput(outputPath, journalInputs);
+
+    await fs.rm(plan.chunkDir, { recursive: true, force: true });
+    // Other renditions may still be chunking
+    await fs.rmdir(path.dirname(plan.chunkDir)).catch(() => {});
+    await logger.info(`Transcoding complete: ${outputPath}`);
+    callbacks.onComplete(codec, rendition.quality, outputPath);
+    return outputPath;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await logger.error(`Transcoding failed: ${errorMessage}`);
+    callbacks.onError(codec, rendition.quality, errorMessage);
+    throw error;
+  }
+}
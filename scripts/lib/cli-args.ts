@@ -1,8 +1,301 @@
-import type { CLIArgs } from './types.js';
+import type {
+  CLIArgs,
+  HWPreference,
+  VideoCodec,
+} from './types.js';
+import { VALID_RENDITIONS } from './renditions.js';
 
-export function parseArgs(): CLIArgs {
-  const args = process.argv.slice(2);
-  return {
-    devMode: args.includes('-d') || args.includes('--dev'),
+export class CLIArgsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CLIArgsError';
+  }
+}
+
+export const VALID_CODECS: VideoCodec[] = ['vp9', 'hevc', 'av1', 'h264'];
+// AV1 (slow in software) and H.264 (legacy fallback) are opt-in
+export const DEFAULT_CODECS: VideoCodec[] = ['vp9', 'hevc'];
+export const VALID_HW: HWPreference[] = [
+  'auto',
+  'hybrid',
+  'nvidia',
+  'qsv',
+  'amf',
+  'vaapi',
+  'videotoolbox',
+  'software',
+];
+
+export const USAGE = `Usage: bun run scripts/transcode.tsx [options]
+
+Starts the interactive wizard by default. When --yes is given, or no TTY is
+attached, the whole pipeline runs unattended from the options below. The
+wizard asks for the input, output, renditions and hardware itself, so on a
+terminal --input, --output, --renditions, --hw and --json need --yes.
+
+Options:
+  -i, --input <file>        Source video file
+  -o, --output <dir>        Output directory (default: <source>_output);
+                            the output root for --job, --glob and --watch
+      --job <file.json>     Batch: process every source in a job file
+      --glob <pattern>      Batch: process every video matching a glob or
+                            inside a directory
+      --report <file>       Batch: aggregate report path
+                            (default: ./batch_report_<timestamp>.json)
+      --watch <dir>         Daemon: process new videos dropped into <dir>,
+                            then move them to <dir>/done or <dir>/failed
+      --poll-interval <s>   Watch: seconds between directory polls (default: 10)
+      --resume <dir>        Continue a cancelled or crashed run unattended,
+                            from its output directory and with its options
+      --renditions <list>   Comma-separated renditions, e.g. 1080p,720p
+                            (default: every rendition the source supports)
+      --codecs <list>       Comma-separated codecs: ${VALID_CODECS.join(', ')}
+                            (default: ${DEFAULT_CODECS.join(', ')})
+      --hw <method>         ${VALID_HW.join(' | ')} (default: auto)
+      --mode <mode>         dev | prod (default: prod)
+      --preset <name>       Encoding preset from the config file (ladder,
+                            passes, encoder presets, segment duration)
+      --config <file>       Preset config file (default: ./transcode.config.json,
+                            then ~/.config/transcode/config.json)
+      --per-title           Run sample encodes to tune ladder bitrates to the
+                            content and drop rungs that add no detail
+      --idet                Analyze the pictures to detect interlaced and
+                            telecined sources (default: stream field order)
+      --vfr-scan            Scan frame timestamps to detect variable frame
+                            rate (default: compare the stream's frame rates)
+      --crop                Detect black bars and crop them on every rung
+      --threads <n>         CPU threads shared by the jobs running in
+                            parallel (default: every core)
+      --single-decode       Decode the source once per codec and encode all
+                            of its rungs from one ffmpeg process
+      --chunked             Split software encodes into chunks encoded in
+                            parallel, then join them (resumable)
+  -d, --dev                 Shorthand for --mode dev
+  -y, --yes                 Run non-interactively with the given options
+      --json                Write NDJSON progress events to stdout (headless)
+      --dry-run             Probe and print every ffmpeg/packager command
+                            without running them (JSON plan with --json)
+  -h, --help                Show this help`;
+
+function parseList<T extends string>(
+  flag: string,
+  value: string,
+  valid: readonly T[]
+): T[] {
+  const items = value
+    .split(',')
+    .map((item) => item.trim().toLowerCase())
+    .filter((item) => item.length > 0);
+
+  if (items.length === 0) {
+    throw new CLIArgsError(`${flag} requires at least one value`);
+  }
+
+  for (const item of items) {
+    if (!valid.includes(item as T)) {
+      throw new CLIArgsError(
+        `Invalid value "${item}" for ${flag}. Expected one of: ${valid.join(', ')}`
+      );
+    }
+  }
+
+  // Drop duplicates while keeping the order given by the user
+  return [...new Set(items)] as T[];
+}
+
+/**
+ * Flags given that only an unattended run uses; the wizard asks for these
+ * itself. `--hw auto` is what the wizard detects anyway.
+ */
+export function getUnattendedFlags(args: CLIArgs): string[] {
+  return [
+    args.inputPath !== undefined && '--input',
+    args.outputPath !== undefined && '--output',
+    args.renditions !== undefined && '--renditions',
+    args.hw !== 'auto' && '--hw',
+    args.json && '--json',
+  ].filter((flag): flag is string => typeof flag === 'string');
+}
+
+export function parseArgs(argv: string[] = process.argv.slice(2)): CLIArgs {
+  const args: CLIArgs = {
+    devMode: false,
+    help: false,
+    assumeYes: false,
+    json: false,
+    dryRun: false,
+    perTitle: false,
+    idet: false,
+    vfrScan: false,
+    crop: false,
+    singleDecode: false,
+    chunked: false,
+    pollInterval: 10,
+    codecs: [...DEFAULT_CODECS],
+    hw: 'auto',
   };
+  let mode: 'dev' | 'prod' | null = null;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    // `bun run script -- -d` forwards the separator itself
+    if (arg === '--') continue;
+
+    // Support both `--flag value` and `--flag=value`
+    const eqIndex = arg.startsWith('--') ? arg.indexOf('=') : -1;
+    const flag = eqIndex > 0 ? arg.slice(0, eqIndex) : arg;
+    const inlineValue = eqIndex > 0 ? arg.slice(eqIndex + 1) : undefined;
+
+    const takeValue = (): string => {
+      if (inlineValue !== undefined) return inlineValue;
+      const next = argv[i + 1];
+      if (next === undefined || next.startsWith('-')) {
+        throw new CLIArgsError(`${flag} requires a value`);
+      }
+      i++;
+      return next;
+    };
+
+    switch (flag) {
+      case '-d':
+      case '--dev':
+        if (mode === 'prod') {
+          throw new CLIArgsError(`${flag} conflicts with --mode prod`);
+        }
+        mode = 'dev';
+        break;
+      case '--mode': {
+        const value = takeValue().toLowerCase();
+        if (value !== 'dev' && value !== 'prod') {
+          throw new CLIArgsError(
+            `Invalid value "${value}" for --mode. Expected one of: dev, prod`
+          );
+        }
+        if (mode !== null && mode !== value) {
+          throw new CLIArgsError(`--mode ${value} conflicts with --dev`);
+        }
+        mode = value;
+        break;
+      }
+      case '-i':
+      case '--input':
+        args.inputPath = takeValue();
+        break;
+      case '-o':
+      case '--output':
+        args.outputPath = takeValue();
+        break;
+      case '--job':
+        args.jobFile = takeValue();
+        break;
+      case '--glob':
+        args.sourceGlob = takeValue();
+        break;
+      case '--report':
+        args.reportPath = takeValue();
+        break;
+      case '--watch':
+        args.watchDir = takeValue();
+        break;
+      case '--resume':
+        args.resumeDir = takeValue();
+        break;
+      case '--poll-interval': {
+        const value = Number(takeValue());
+        if (!Number.isFinite(value) || value <= 0) {
+          throw new CLIArgsError('--poll-interval must be a positive number of seconds');
+        }
+        args.pollInterval = value;
+        break;
+      }
+      case '--renditions':
+        args.renditions = parseList(flag, takeValue(), VALID_RENDITIONS);
+        break;
+      case '--codecs':
+        args.codecs = parseList(flag, takeValue(), VALID_CODECS);
+        break;
+      case '--hw': {
+        const value = takeValue().toLowerCase() as HWPreference;
+        if (!VALID_HW.includes(value)) {
+          throw new CLIArgsError(
+            `Invalid value "${value}" for --hw. Expected one of: ${VALID_HW.join(', ')}`
+          );
+        }
+        args.hw = value;
+        break;
+      }
+      case '--preset':
+        args.preset = takeValue();
+        break;
+      case '--config':
+        args.configPath = takeValue();
+        break;
+      case '--per-title':
+        args.perTitle = true;
+        break;
+      case '--idet':
+        args.idet = true;
+        break;
+      case '--vfr-scan':
+        args.vfrScan = true;
+        break;
+      case '--crop':
+        args.crop = true;
+        break;
+      case '--single-decode':
+        args.singleDecode = true;
+        break;
+      case '--chunked':
+        args.chunked = true;
+        break;
+      case '--threads': {
+        const value = Number(takeValue());
+        if (!Number.isInteger(value) || value <= 0) {
+          throw new CLIArgsError('--threads must be a positive whole number');
+        }
+        args.threads = value;
+        break;
+      }
+      case '-y':
+      case '--yes':
+        args.assumeYes = true;
+        break;
+      case '--json':
+        args.json = true;
+        break;
+      case '--dry-run':
+        args.dryRun = true;
+        break;
+      case '-h':
+      case '--help':
+        args.help = true;
+        break;
+      default:
+        throw new CLIArgsError(`Unknown option: ${arg}`);
+    }
+  }
+
+  const sourceFlags = [
+    args.inputPath !== undefined && '--input',
+    args.jobFile !== undefined && '--job',
+    args.sourceGlob !== undefined && '--glob',
+    args.watchDir !== undefined && '--watch',
+    args.resumeDir !== undefined && '--resume',
+  ].filter(Boolean);
+  if (sourceFlags.length > 1) {
+    throw new CLIArgsError(`${sourceFlags.join(' and ')} cannot be combined`);
+  }
+  if (args.reportPath !== undefined && !args.jobFile && !args.sourceGlob) {
+    throw new CLIArgsError('--report is only used with --job or --glob');
+  }
+  if (args.dryRun && sourceFlags.length > 0 && sourceFlags[0] !== '--input') {
+    throw new CLIArgsError('--dry-run only supports a single --input');
+  }
+  if (args.watchDir !== undefined && args.outputPath === undefined) {
+    throw new CLIArgsError('--watch requires --output as the output root');
+  }
+
+  args.devMode = mode === 'dev';
+  return args;
 }
@@ -0,0 +1,189 @@
+import type { CropRect, VideoInfo } from './types.js';
+import { releaseProcess, trackProcess } from './run-control.js';
+
+/**
+ * Black bar detection (--crop).
+ *
+ * Letterboxed films carry black bars that every rung would otherwise spend
+ * bits on. cropdetect runs on short stretches spread across the source; the
+ * rectangle is the union of what the samples found, so a dark scene (which
+ * cropdetect sees as mostly bars) never cuts into the picture. Samples that
+ * are nearly all black (fades, title cards) are ignored, and a few usable
+ * samples are needed before anything is cropped.
+ *
+ * The crop runs after deinterlacing, so fields are never split, and before
+ * tone-mapping and scaling. The ladder is fitted to the cropped geometry.
+ */
+
+const SAMPLE_COUNT = 10;
+const SAMPLE_FRAMES = 12;
+// Luma below this fraction of the range counts as black; holds for 8-bit,
+// 10-bit and PQ limited range (black at code 64 of 1023)
+const BLACK_LIMIT = 0.094;
+// A sample whose picture is less than this share of the frame is a fade
+const MIN_PICTURE_RATIO = 0.5;
+const MIN_VALID_SAMPLES = 3;
+// Bars thinner than this share of the frame (encoder padding, VHS head
+// switching) are not worth a different ladder geometry
+const MIN_BAR_RATIO = 0.02;
+
+export class CropError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CropError';
+  }
+}
+
+/**
+ * Sample offsets evenly spread across the source, skipping the very start
+ * and end (logos, credits).
+ */
+export function getCropSampleOffsets(duration: number): number[] {
+  return Array.from({ length: SAMPLE_COUNT }, (_, idx) =>
+    Math.floor((duration * (idx + 1)) / (SAMPLE_COUNT + 1))
+  );
+}
+
+export function buildCropDetectArgs(inputPath: string, offset: number): string[] {
+  return [
+    '-hide_banner',
+    '-nostats',
+    '-ss',
+    offset.toString(),
+    '-i',
+    inputPath,
+    '-map',
+    '0:v:0',
+    '-vf',
+    `cropdetect=limit=${BLACK_LIMIT}:round=2:reset=0`,
+    '-frames:v',
+    SAMPLE_FRAMES.toString(),
+    '-an',
+    '-f',
+    'null',
+    '-',
+  ];
+}
+
+// cropdetect logs e.g. "... crop=1920:800:0:140" for every frame; with
+// reset=0 the last line covers the whole sample
+export function parseCropDetectOutput(stderr: string): CropRect | null {
+  const matches = [...stderr.matchAll(/crop=(\d+):(\d+):(\d+):(\d+)/g)];
+  const last = matches[matches.length - 1];
+  if (!last) return null;
+  const [width, height, x, y] = last.slice(1).map((value) => parseInt(value, 10));
+  return { width, height, x, y };
+}
+
+function floorEven(value: number): number {
+  return Math.floor(value / 2) * 2;
+}
+
+function ceilEven(value: number): number {
+  return Math.ceil(value / 2) * 2;
+}
+
+/**
+ * Combine the samples into one crop for the frame size. Null when there is
+ * nothing worth cropping or too few samples to tell.
+ */
+export function resolveCrop(
+  samples: CropRect[],
+  frameWidth: number,
+  frameHeight: number
+): CropRect | null {
+  const valid = samples.filter(
+    (rect) =>
+      rect.width >= frameWidth * MIN_PICTURE_RATIO &&
+      rect.height >= frameHeight * MIN_PICTURE_RATIO
+  );
+  if (valid.length < MIN_VALID_SAMPLES) return null;
+
+  // Offsets rounded down and sizes rounded up to even keep the whole picture
+  // and 4:2:0 chroma siting
+  const left = floorEven(Math.min(...valid.map((rect) => rect.x)));
+  const top = floorEven(Math.min(...valid.map((rect) => rect.y)));
+  const right = Math.max(...valid.map((rect) => rect.x + rect.width));
+  const bottom = Math.max(...valid.map((rect) => rect.y + rect.height));
+  const width = floorEven(Math.min(ceilEven(right - left), frameWidth - left));
+  const height = floorEven(Math.min(ceilEven(bottom - top), frameHeight - top));
+
+  const barsX = frameWidth - width;
+  const barsY = frameHeight - height;
+  if (barsX < frameWidth * MIN_BAR_RATIO && barsY < frameHeight * MIN_BAR_RATIO) return null;
+
+  return { width, height, x: left, y: top };
+}
+
+async function detectSample(inputPath: string, offset: number): Promise<CropRect | null> {
+  const proc = Bun.spawn(['ffmpeg', ...buildCropDetectArgs(inputPath, offset)], {
+    stdout: 'ignore',
+    stderr: 'pipe',
+  });
+  const tracked = trackProcess(proc);
+  const stderr = await new Response(proc.stderr).text();
+  const exitCode = await proc.exited;
+  await releaseProcess(tracked);
+
+  if (exitCode !== 0) {
+    const lastLine = stderr.trim().split('\n').pop() ?? '';
+    throw new CropError(`cropdetect exited with code ${exitCode}: ${lastLine}`);
+  }
+  return parseCropDetectOutput(stderr);
+}
+
+/**
+ * Sample the source and return the crop rectangle, in pixels of the frame
+ * the filter graph sees (after autorotation).
+ */
+export async function detectCrop(
+  inputPath: string,
+  video: VideoInfo,
+  duration: number
+): Promise<CropRect | null> {
+  const quarterTurn = video.rotation === 90 || video.rotation === 270;
+  const frameWidth = quarterTurn ? video.height : video.width;
+  const frameHeight = quarterTurn ? video.width : video.height;
+
+  const samples: CropRect[] = [];
+  for (const offset of getCropSampleOffsets(duration)) {
+    const rect = await detectSample(inputPath, offset);
+    if (rect) samples.push(rect);
+  }
+  return resolveCrop(samples, frameWidth, frameHeight);
+}
+
+/**
+ * Geometry as shown by a player once the crop is applied. The SAR stretches
+ * the coded width, which is the frame's height after a quarter turn.
+ */
+export function getCroppedDisplaySize(video: VideoInfo): { width: number; height: number } {
+  if (!video.crop) return { width: video.displayWidth, height: video.displayHeight };
+
+  const quarterTurn = video.rotation === 90 || video.rotation === 270;
+  const stretch = (value: number) => Math.round((value * video.sampleAspectRatio) / 2) * 2;
+  return quarterTurn
+    ? { width: video.crop.width, height: stretch(video.crop.height) }
+    : { width: stretch(video.crop.width), height: video.crop.height };
+}
+
+export function buildCropFilter(video: VideoInfo): string | null {
+  if (!video.crop) return null;
+  const { width, height, x, y } = video.crop;
+  return `crop=${width}:${height}:${x}:${y}`;
+}
+
+/**
+ * e.g. "1920x800 at 0,140", or "1440x800 at 0,140 (displays 1920x800)" for
+ * anamorphic sources
+ */
+export function formatCrop(video: VideoInfo): string {
+  if (!video.crop) return 'none';
+  const { width, height, x, y } = video.crop;
+  const display = getCroppedDisplaySize(video);
+  const note =
+    display.width !== width || display.height !== height
+      ? ` (displays ${display.width}x${display.height})`
+      : '';
+  return `${width}x${height} at ${x},${y}${note}`;
+}
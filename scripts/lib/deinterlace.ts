@@ -0,0 +1,196 @@
+import type { FieldOrder, ScanType, VideoInfo } from './types.js';
+import { releaseProcess, trackProcess } from './run-control.js';
+
+/**
+ * Interlaced and telecined sources.
+ *
+ * ffprobe's field_order says whether the stream is coded as interlaced, but
+ * not whether it is telecined film: hard 3:2 pulldown is coded exactly like
+ * interlaced video. The optional idet pass (--idet) looks at the pictures
+ * themselves and tells the two apart.
+ *
+ * Interlaced video is deinterlaced with bwdif at field rate (25i -> 50p)
+ * so broadcast motion stays smooth. Telecined film gets inverse telecine:
+ * fieldmatch rebuilds the original frames, yadif cleans up the few still
+ * combed and decimate drops the duplicates (29.97 -> 23.976).
+ */
+
+// Share of idet's decided frames that must be interlaced to deinterlace
+const INTERLACED_RATIO = 0.5;
+// 3:2 pulldown repeats a field in 2 of every 5 frames; leave room for
+// cadence breaks at edits
+const TELECINE_REPEAT_RATIO = 0.2;
+// Pulldown turns 23.976/24 fps film into 29.97/30 fps video
+const TELECINE_FRAME_RATES = [30000 / 1001, 30];
+
+const IDET_FRAMES = 1000;
+// Skip the start, which is often black or a static logo
+const IDET_OFFSET_RATIO = 0.1;
+
+export class DeinterlaceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeinterlaceError';
+  }
+}
+
+export interface IdetCounts {
+  tff: number;
+  bff: number;
+  progressive: number;
+  repeatedNeither: number;
+  repeatedTop: number;
+  repeatedBottom: number;
+}
+
+/**
+ * Scan type from ffprobe's field_order. tb/bt are coded in one order and
+ * displayed in the other; the display order is what matters for filtering.
+ */
+export function parseFieldOrder(fieldOrder: string | undefined): {
+  scanType: ScanType;
+  fieldOrder?: FieldOrder;
+} {
+  switch (fieldOrder) {
+    case 'tt':
+    case 'bt':
+      return { scanType: 'interlaced', fieldOrder: 'tff' };
+    case 'bb':
+    case 'tb':
+      return { scanType: 'interlaced', fieldOrder: 'bff' };
+    default:
+      return { scanType: 'progressive' };
+  }
+}
+
+export function buildIdetArgs(inputPath: string, duration: number): string[] {
+  return [
+    '-hide_banner',
+    '-nostats',
+    '-ss',
+    Math.floor(duration * IDET_OFFSET_RATIO).toString(),
+    '-i',
+    inputPath,
+    '-map',
+    '0:v:0',
+    '-vf',
+    'idet',
+    '-frames:v',
+    IDET_FRAMES.toString(),
+    '-an',
+    '-f',
+    'null',
+    '-',
+  ];
+}
+
+// idet prints its totals when the filter graph is torn down, e.g.
+// "Repeated Fields: Neither: 480 Top: 10 Bottom: 10"
+// "Multi frame detection: TFF: 200 BFF: 0 Progressive: 290 Undetermined: 10"
+export function parseIdetOutput(stderr: string): IdetCounts | null {
+  const multi = stderr.match(
+    /Multi frame detection:\s*TFF:\s*(\d+)\s*BFF:\s*(\d+)\s*Progressive:\s*(\d+)/
+  );
+  const repeated = stderr.match(
+    /Repeated Fields:\s*Neither:\s*(\d+)\s*Top:\s*(\d+)\s*Bottom:\s*(\d+)/
+  );
+  if (!multi || !repeated) return null;
+
+  return {
+    tff: parseInt(multi[1], 10),
+    bff: parseInt(multi[2], 10),
+    progressive: parseInt(multi[3], 10),
+    repeatedNeither: parseInt(repeated[1], 10),
+    repeatedTop: parseInt(repeated[2], 10),
+    repeatedBottom: parseInt(repeated[3], 10),
+  };
+}
+
+/**
+ * Classify the idet counts. Returns null when idet could not decide on
+ * enough frames, in which case ffprobe's field_order stands.
+ */
+export function classifyIdet(
+  counts: IdetCounts,
+  frameRate: number
+): { scanType: ScanType; fieldOrder?: FieldOrder } | null {
+  const interlaced = counts.tff + counts.bff;
+  const decided = interlaced + counts.progressive;
+  if (decided === 0) return null;
+
+  const fieldOrder: FieldOrder = counts.tff >= counts.bff ? 'tff' : 'bff';
+  const repeated = counts.repeatedTop + counts.repeatedBottom;
+  const repeatedRatio = repeated / (repeated + counts.repeatedNeither || 1);
+  const telecineRate = TELECINE_FRAME_RATES.some((rate) => Math.abs(frameRate - rate) < 0.01);
+
+  if (telecineRate && repeatedRatio >= TELECINE_REPEAT_RATIO) {
+    return { scanType: 'telecine', fieldOrder };
+  }
+  if (interlaced / decided >= INTERLACED_RATIO) {
+    return { scanType: 'interlaced', fieldOrder };
+  }
+  return { scanType: 'progressive' };
+}
+
+/**
+ * Run idet on a stretch of the source.
+ */
+export async function analyzeInterlacing(
+  inputPath: string,
+  video: VideoInfo,
+  duration: number
+): Promise<{ scanType: ScanType; fieldOrder?: FieldOrder } | null> {
+  const proc = Bun.spawn(['ffmpeg', ...buildIdetArgs(inputPath, duration)], {
+    stdout: 'ignore',
+    stderr: 'pipe',
+  });
+  const tracked = trackProcess(proc);
+  const stderr = await new Response(proc.stderr).text();
+  const exitCode = await proc.exited;
+  await releaseProcess(tracked);
+
+  if (exitCode !== 0) {
+    const lastLine = stderr.trim().split('\n').pop() ?? '';
+    throw new DeinterlaceError(`idet exited with code ${exitCode}: ${lastLine}`);
+  }
+
+  const counts = parseIdetOutput(stderr);
+  return counts ? classifyIdet(counts, video.frameRate) : null;
+}
+
+/**
+ * Filter that turns the source into progressive frames, placed ahead of
+ * tone-mapping and scaling. Null for progressive sources.
+ */
+export function buildDeinterlaceFilter(video: VideoInfo): string | null {
+  const order = video.fieldOrder ?? 'auto';
+  if (video.scanType === 'interlaced') {
+    return `bwdif=mode=send_field:parity=${order}:deint=all`;
+  }
+  if (video.scanType === 'telecine') {
+    return `fieldmatch=order=${order}:combmatch=full,yadif=deint=interlaced,decimate`;
+  }
+  return null;
+}
+
+/**
+ * Frame rate after deinterlacing or inverse telecine.
+ */
+export function getDeinterlacedFrameRate(video: VideoInfo): number {
+  if (video.scanType === 'interlaced') return video.frameRate * 2;
+  if (video.scanType === 'telecine') return (video.frameRate * 4) / 5;
+  return video.frameRate;
+}
+
+/**
+ * e.g. "interlaced (TFF), deinterlaced to 50.00 fps"
+ */
+export function formatScanType(video: VideoInfo): string {
+  if (video.scanType === 'progressive') return 'progressive';
+
+  const order = video.fieldOrder ? ` (${video.fieldOrder.toUpperCase()})` : '';
+  const rate = getDeinterlacedFrameRate(video).toFixed(2);
+  return video.scanType === 'interlaced'
+    ? `interlaced${order}, deinterlaced to ${rate} fps`
+    : `telecined${order}, inverse telecine to ${rate} fps`;
+}
@@ -0,0 +1,242 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import type { HWAccelInfo, VideoCodec, VideoInfo, VideoRange } from './types.js';
+import { checkOptionalTool, type OptionalTool } from './tool-checker.js';
+import { releaseProcess, trackProcess } from './run-control.js';
+import { completeOutput, isOutputComplete, startOutput, type JournalInputs } from './journal.js';
+
+/**
+ * HDR10+ and Dolby Vision carry-through.
+ *
+ * The dynamic metadata is pulled out of the source's HEVC bitstream once
+ * (hdr10plus_tool / dovi_tool) and handed to x265 for every HDR rung, which
+ * re-inserts it frame by frame. Dolby Vision is always written as profile 8.1
+ * (HDR10-compatible base layer) and remuxed with MP4Box so the file carries
+ * the dvcC configuration box players and the packager look for.
+ *
+ * Only libx265 can insert the metadata; every other HDR rung stays HDR10.
+ */
+
+export type DynamicMetadataType = 'HDR10+' | 'DolbyVision';
+
+export interface DynamicMetadata {
+  type: DynamicMetadataType;
+  path: string; // hdr10plus_tool JSON or dovi_tool RPU file
+}
+
+export class DynamicMetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DynamicMetadataError';
+  }
+}
+
+const REQUIRED_TOOLS: Record<DynamicMetadataType, OptionalTool[]> = {
+  'HDR10+': ['hdr10plus_tool'],
+  DolbyVision: ['dovi_tool', 'MP4Box'],
+};
+
+// Profile 5 has no HDR10-compatible base layer to fall back to, so its
+// RPU cannot be turned into profile 8.1 without reshaping the video
+const CONVERTIBLE_DV_PROFILES = [7, 8];
+
+export function getDynamicMetadataLabel(type: DynamicMetadataType): string {
+  return type === 'DolbyVision' ? 'Dolby Vision' : 'HDR10+';
+}
+
+/**
+ * What dynamic metadata the source carries and where it will be extracted
+ * to, or a reason it can't be carried (the output falls back to HDR10).
+ */
+export function planDynamicMetadata(
+  video: VideoInfo,
+  tmpDir: string
+): { metadata: DynamicMetadata | null; warning?: string } {
+  if (video.hdrType !== 'HDR10+' && video.hdrType !== 'DolbyVision') {
+    return { metadata: null };
+  }
+
+  const label = getDynamicMetadataLabel(video.hdrType);
+  if (video.codec !== 'hevc') {
+    return {
+      metadata: null,
+      warning: `${label} metadata can only be carried from HEVC sources (source is ${video.codec}); encoding HDR10`,
+    };
+  }
+  if (
+    video.hdrType === 'DolbyVision' &&
+    video.dolbyVisionProfile !== undefined &&
+    !CONVERTIBLE_DV_PROFILES.includes(video.dolbyVisionProfile)
+  ) {
+    return {
+      metadata: null,
+      warning: `Dolby Vision profile ${video.dolbyVisionProfile} cannot be converted to profile 8.1; encoding HDR10`,
+    };
+  }
+
+  return {
+    metadata: {
+      type: video.hdrType,
+      path: path.join(
+        tmpDir,
+        video.hdrType === 'DolbyVision' ? 'dovi_rpu.bin' : 'hdr10plus.json'
+      ),
+    },
+  };
+}
+
+/**
+ * Extraction is `ffmpeg ... -f hevc - | <tool> ... -`: the source's HEVC
+ * stream is copied as Annex B to the tool's stdin.
+ */
+export function buildMetadataExtractArgs(
+  sourcePath: string,
+  metadata: DynamicMetadata
+): { ffmpegArgs: string[]; tool: OptionalTool; toolArgs: string[] } {
+  const ffmpegArgs = [
+    '-v',
+    'error',
+    '-i',
+    sourcePath,
+    '-map',
+    '0:v:0',
+    '-c:v',
+    'copy',
+    '-bsf:v',
+    'hevc_mp4toannexb',
+    '-f',
+    'hevc',
+    '-',
+  ];
+
+  if (metadata.type === 'HDR10+') {
+    return {
+      ffmpegArgs,
+      tool: 'hdr10plus_tool',
+      toolArgs: ['extract', '-o', metadata.path, '-'],
+    };
+  }
+  // Mode 2 converts profile 7 (and 8.x) RPUs to profile 8.1
+  return {
+    ffmpegArgs,
+    tool: 'dovi_tool',
+    toolArgs: ['-m', '2', 'extract-rpu', '-o', metadata.path, '-'],
+  };
+}
+
+/**
+ * Run the extraction. Throws DynamicMetadataError when a tool is missing or
+ * fails; callers fall back to HDR10.
+ */
+export async function extractDynamicMetadata(
+  sourcePath: string,
+  metadata: DynamicMetadata
+): Promise<void> {
+  const { ffmpegArgs, tool, toolArgs } = buildMetadataExtractArgs(sourcePath, metadata);
+  const journalInputs: JournalInputs = { sourcePath, commands: [ffmpegArgs, [tool, ...toolArgs]] };
+  if (await isOutputComplete(metadata.path, journalInputs)) {
+    return;
+  }
+
+  const required = REQUIRED_TOOLS[metadata.type];
+  const available = await Promise.all(required.map(checkOptionalTool));
+  const missing = required.filter((_, idx) => !available[idx]);
+  if (missing.length > 0) {
+    throw new DynamicMetadataError(`${missing.join(', ')} not found`);
+  }
+
+  await startOutput(metadata.path, journalInputs);
+  const ffmpeg = Bun.spawn(['ffmpeg', ...ffmpegArgs], {
+    stdout: 'pipe',
+    stderr: 'pipe',
+  });
+  const extractor = Bun.spawn([tool, ...toolArgs], {
+    stdin: ffmpeg.stdout,
+    stdout: 'ignore',
+    stderr: 'pipe',
+  });
+  const tracked = [trackProcess(ffmpeg), trackProcess(extractor, { outputs: [metadata.path] })];
+
+  const [ffmpegStderr, toolStderr] = await Promise.all([
+    new Response(ffmpeg.stderr).text(),
+    new Response(extractor.stderr).text(),
+  ]);
+  const [ffmpegExit, toolExit] = await Promise.all([ffmpeg.exited, extractor.exited]);
+  await Promise.all(tracked.map(releaseProcess));
+
+  if (ffmpegExit !== 0 || toolExit !== 0) {
+    await fs.rm(metadata.path, { force: true });
+    const stderr = toolExit !== 0 ? toolStderr : ffmpegStderr;
+    throw new DynamicMetadataError(
+      `${toolExit !== 0 ? tool : 'ffmpeg'} exited with code ${toolExit || ffmpegExit}\n${stderr.slice(-1000)}`
+    );
+  }
+  await completeOutput(metadata.path, journalInputs);
+}
+
+/**
+ * Whether a rung keeps the dynamic metadata: PQ rungs encoded with libx265.
+ */
+export function carriesDynamicMetadata(
+  codec: VideoCodec,
+  hwAccel: HWAccelInfo,
+  videoRange: VideoRange
+): boolean {
+  return codec === 'hevc' && hwAccel.method === 'software' && videoRange === 'PQ';
+}
+
+export function buildDynamicX265Params(metadata: DynamicMetadata): string[] {
+  if (metadata.type === 'HDR10+') {
+    return [`dhdr10-info=${metadata.path}`];
+  }
+  return ['dolby-vision-profile=8.1', `dolby-vision-rpu=${metadata.path}`];
+}
+
+/**
+ * MP4Box remux that adds the Dolby Vision profile 8.1 configuration (dvcC)
+ * to an x265 output whose bitstream already carries the RPUs.
+ */
+export function buildDolbyVisionRemuxArgs(inputPath: string, outputPath: string): string[] {
+  return [
+    '-add',
+    `${inputPath}#video:dvp=8.1`,
+    '-brand',
+    'mp42isom',
+    '-ab',
+    'dby1',
+    '-new',
+    outputPath,
+  ];
+}
+
+// Dolby Vision levels: max pixel rate and max width (Dolby Vision profiles
+// and levels specification)
+const DV_LEVELS: Array<{ level: number; pixelRate: number; width: number }> = [
+  { level: 1, pixelRate: 22118400, width: 1280 },
+  { level: 2, pixelRate: 27648000, width: 1280 },
+  { level: 3, pixelRate: 49766400, width: 1920 },
+  { level: 4, pixelRate: 62208000, width: 2560 },
+  { level: 5, pixelRate: 124416000, width: 3840 },
+  { level: 6, pixelRate: 199065600, width: 3840 },
+  { level: 7, pixelRate: 248832000, width: 3840 },
+  { level: 8, pixelRate: 398131200, width: 3840 },
+  { level: 9, pixelRate: 497664000, width: 3840 },
+  { level: 10, pixelRate: 995328000, width: 3840 },
+  { level: 11, pixelRate: 995328000, width: 7680 },
+  { level: 12, pixelRate: 1990656000, width: 7680 },
+  { level: 13, pixelRate: 3981312000, width: 7680 },
+];
+
+/**
+ * Supplemental codec of a profile 8.1 rendition as used in manifests, e.g.
+ * "dvh1.08.06/db1p" for 2160p24. The part after the slash is the
+ * compatibility brand (db1p: HDR10-compatible).
+ */
+export function getDolbyVisionCodec(width: number, height: number, frameRate: number): string {
+  const pixelRate = width * height * frameRate;
+  const longEdge = Math.max(width, height);
+  const match =
+    DV_LEVELS.find((l) => pixelRate <= l.pixelRate && longEdge <= l.width) ??
+    DV_LEVELS[DV_LEVELS.length - 1];
+  return `dvh1.08.${match.level.toString().padStart(2, '0')}/db1p`;
+}
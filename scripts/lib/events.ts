@@ -0,0 +1,278 @@
+import type {
+  FailedJob,
+  MediaInfo,
+  PackagerOutput,
+  RenditionJob,
+  RenditionQuality,
+  RungDecision,
+  SourceStatus,
+  ToolStatus,
+  TranscodeMode,
+  TranscodeProgress,
+  VideoCodec,
+} from './types.js';
+
+/**
+ * Machine-readable event stream (--json).
+ *
+ * Every event is written to stdout as a single line of JSON (NDJSON). All
+ * events share the fields of BaseEvent; `type` identifies the schema of the
+ * remaining fields. Bump EVENT_SCHEMA_VERSION on any breaking change to an
+ * existing event; adding new event types or optional fields is not breaking.
+ */
+export const EVENT_SCHEMA_VERSION = 1;
+
+interface BaseEvent {
+  /** Event schema version, see EVENT_SCHEMA_VERSION */
+  v: number;
+  /** ISO 8601 time the event was emitted */
+  timestamp: string;
+}
+
+/** Required external tools were checked */
+export interface ToolsCheckedEvent extends BaseEvent {
+  type: 'tools_checked';
+  tools: ToolStatus;
+}
+
+/** Source was probed with ffprobe */
+export interface ProbeEvent extends BaseEvent {
+  type: 'probe';
+  mediaInfo: MediaInfo;
+}
+
+/** Per-title analysis started; `encodes` sample encodes will run */
+export interface AnalysisStartEvent extends BaseEvent {
+  type: 'analysis_start';
+  renditions: RenditionQuality[];
+  encodes: number;
+}
+
+/** Per-title ladder was chosen; one decision per analyzed rung */
+export interface LadderEvent extends BaseEvent {
+  type: 'ladder';
+  decisions: RungDecision[];
+}
+
+/** Run parameters were resolved and transcoding is about to begin */
+export interface RunStartEvent extends BaseEvent {
+  type: 'run_start';
+  sourcePath: string;
+  outputPath: string;
+  mode: TranscodeMode;
+  preset?: string;
+  renditions: RenditionQuality[];
+  codecs: VideoCodec[];
+  hwAccel: string;
+  totalJobs: number;
+}
+
+/** Audio or subtitle extraction started */
+export interface ExtractStartEvent extends BaseEvent {
+  type: 'extract_start';
+  kind: 'audio' | 'subtitles';
+}
+
+/** Audio or subtitle extraction finished; `extracted` tracks were written */
+export interface ExtractEndEvent extends BaseEvent {
+  type: 'extract_end';
+  kind: 'audio' | 'subtitles';
+  extracted: number;
+}
+
+/** A rendition/codec job started */
+export interface RenditionStartEvent extends BaseEvent, RenditionJob {
+  type: 'rendition_start';
+}
+
+/** FFmpeg progress tick for a running job */
+export interface ProgressEvent extends BaseEvent, RenditionJob {
+  type: 'progress';
+  pass: 1 | 2;
+  /** Total passes for this job (VP9 in prod mode uses 2) */
+  passes: 1 | 2;
+  frame: number;
+  totalFrames: number;
+  fps: number;
+  speed: number;
+  /** 0-100 within the current pass */
+  percent: number;
+  /** Estimated seconds remaining in the current pass */
+  eta: number;
+}
+
+/** An encoding pass of a job finished */
+export interface PassCompleteEvent extends BaseEvent, RenditionJob {
+  type: 'pass_complete';
+  pass: 1 | 2;
+}
+
+/** A job produced its output file */
+export interface RenditionCompleteEvent extends BaseEvent, RenditionJob {
+  type: 'rendition_complete';
+  outputPath: string;
+}
+
+/** A job failed; the run continues with the remaining jobs */
+export interface RenditionFailedEvent extends BaseEvent, RenditionJob {
+  type: 'rendition_failed';
+  error: string;
+}
+
+/** Something about the output differs from what was asked for; the run continues */
+export interface WarningEvent extends BaseEvent {
+  type: 'warning';
+  message: string;
+}
+
+/** All jobs finished and Shaka Packager is starting */
+export interface PackagingStartEvent extends BaseEvent {
+  type: 'packaging_start';
+}
+
+/** Shaka Packager wrote the manifests */
+export interface PackagerOutputEvent extends BaseEvent {
+  type: 'packager_output';
+  output: PackagerOutput;
+}
+
+/** Final event of a run that got as far as transcoding */
+export interface SummaryEvent extends BaseEvent {
+  type: 'summary';
+  success: boolean;
+  exitCode: number;
+  completed: RenditionJob[];
+  failed: FailedJob[];
+  /** Wall clock duration of the run in seconds */
+  elapsed: number;
+}
+
+/** Batch: a source is about to be processed (`index` is 0-based) */
+export interface SourceStartEvent extends BaseEvent {
+  type: 'source_start';
+  index: number;
+  total: number;
+  inputPath: string;
+}
+
+/**
+ * Batch: a source finished. `partial` means some renditions failed;
+ * `failed` means the source could not be processed at all (see `error`).
+ */
+export interface SourceEndEvent extends BaseEvent {
+  type: 'source_end';
+  index: number;
+  total: number;
+  inputPath: string;
+  status: SourceStatus;
+  error?: string;
+}
+
+/** Batch: final event once every source was processed */
+export interface BatchSummaryEvent extends BaseEvent {
+  type: 'batch_summary';
+  total: number;
+  succeeded: number;
+  partial: number;
+  failed: number;
+  reportPath: string;
+  exitCode: number;
+  elapsed: number;
+}
+
+/** Watch mode: the daemon started polling the ingest directory */
+export interface WatchStartEvent extends BaseEvent {
+  type: 'watch_start';
+  watchDir: string;
+  outputRoot: string;
+  /** Seconds between directory polls */
+  pollInterval: number;
+}
+
+/**
+ * Watch mode: state change of an ingested file. `movedTo` is set once the
+ * file was moved to the done/ or failed/ folder.
+ */
+export interface WatchSourceEvent extends BaseEvent {
+  type: 'watch_source';
+  inputPath: string;
+  status: 'detected' | 'processing' | 'done' | 'failed';
+  outputPath?: string;
+  movedTo?: string;
+  error?: string;
+}
+
+/** The run was aborted; this is the last event emitted */
+export interface ErrorEvent extends BaseEvent {
+  type: 'error';
+  message: string;
+  exitCode: number;
+}
+
+export type TranscodeEvent =
+  | ToolsCheckedEvent
+  | ProbeEvent
+  | AnalysisStartEvent
+  | LadderEvent
+  | RunStartEvent
+  | ExtractStartEvent
+  | ExtractEndEvent
+  | RenditionStartEvent
+  | ProgressEvent
+  | PassCompleteEvent
+  | RenditionCompleteEvent
+  | RenditionFailedEvent
+  | WarningEvent
+  | PackagingStartEvent
+  | PackagerOutputEvent
+  | SummaryEvent
+  | SourceStartEvent
+  | SourceEndEvent
+  | BatchSummaryEvent
+  | WatchStartEvent
+  | WatchSourceEvent
+  | ErrorEvent;
+
+// Distributes Omit over the union so each member keeps its own fields
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+export type TranscodeEventInput = DistributiveOmit<
+  TranscodeEvent,
+  keyof BaseEvent
+>;
+
+export function createEvent(event: TranscodeEventInput): TranscodeEvent {
+  return {
+    v: EVENT_SCHEMA_VERSION,
+    timestamp: new Date().toISOString(),
+    ...event,
+  } as TranscodeEvent;
+}
+
+export function progressToEvent(
+  progress: TranscodeProgress
+): TranscodeEventInput {
+  const { job } = progress;
+  return {
+    type: 'progress',
+    codec: job.codec,
+    quality: job.rendition.quality,
+    pass: progress.pass,
+    passes: job.codec === 'vp9' ? job.settings.passes : 1,
+    frame: progress.frame,
+    totalFrames: progress.totalFrames,
+    fps: progress.fps,
+    speed: progress.speed,
+    percent: Math.round(progress.percent * 100) / 100,
+    eta: Math.round(progress.eta),
+  };
+}
+
+/**
+ * Serialize an event as one NDJSON line.
+ */
+export function serializeEvent(event: TranscodeEvent): string {
+  return `${JSON.stringify(event)}\n`;
+}
@@ -0,0 +1,195 @@
+import type { Rendition, ScanType, VideoInfo } from './types.js';
+import { getDeinterlacedFrameRate } from './deinterlace.js';
+import { releaseProcess, trackProcess } from './run-control.js';
+
+/**
+ * Variable frame rate sources.
+ *
+ * Phones and screen recorders write frames whenever they have one, so the
+ * stream's avg_frame_rate is only an average. Encoding such a source as is
+ * gives every rendition its own timestamps (and, with -g, its own keyframe
+ * positions) and makes frame-based progress wrong. VFR sources are
+ * normalized to the nearest standard rate with the fps filter, which is
+ * deterministic, so every rendition and codec gets identical timestamps.
+ *
+ * r_frame_rate (the lowest rate all timestamps fit) differing from
+ * avg_frame_rate is the cheap hint. The optional packet timestamp scan
+ * (--vfr-scan) measures the frame intervals and overrides it.
+ *
+ * Rungs with a maxFrameRate below the source's keep every nth frame, with n
+ * the smallest whole divisor that gets under the cap (60 -> 30, 50 -> 25).
+ * A whole divisor keeps each rung's frames on the source's timeline, so
+ * keyframes and segment boundaries still line up across rungs.
+ */
+
+const STANDARD_RATES = [24000 / 1001, 24, 25, 30000 / 1001, 30, 50, 60000 / 1001, 60];
+
+// r_frame_rate/avg_frame_rate ratios that are not VFR: field rate of
+// interlaced streams and soft 3:2 pulldown flags
+const BENIGN_RATE_RATIOS = [2, 5 / 4];
+const RATE_TOLERANCE = 0.01;
+
+const SCAN_SECONDS = 120;
+// A frame interval this far from the median counts as irregular...
+const INTERVAL_TOLERANCE = 0.1;
+// ...and this share of irregular intervals makes the source VFR
+const IRREGULAR_RATIO = 0.02;
+
+export class FrameRateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FrameRateError';
+  }
+}
+
+// ffprobe rates are rationals, e.g. "30000/1001"; "0/0" means unknown
+export function parseRate(value: string | undefined): number | null {
+  const match = value?.match(/^(\d+)(?:\/(\d+))?$/);
+  if (!match) return null;
+  const num = parseInt(match[1], 10);
+  const den = parseInt(match[2] ?? '1', 10);
+  return num > 0 && den > 0 ? num / den : null;
+}
+
+function isClose(a: number, b: number): boolean {
+  return Math.abs(a - b) / b < RATE_TOLERANCE;
+}
+
+/**
+ * VFR hint from the stream header.
+ */
+export function isVariableFrameRate(
+  rFrameRate: string | undefined,
+  avgFrameRate: string | undefined,
+  scanType: ScanType
+): boolean {
+  const real = parseRate(rFrameRate);
+  const average = parseRate(avgFrameRate);
+  if (real === null || average === null || isClose(real, average)) return false;
+  if (scanType !== 'progressive') return false;
+  return !BENIGN_RATE_RATIOS.some((ratio) => isClose(real / average, ratio));
+}
+
+export function buildTimestampScanArgs(inputPath: string): string[] {
+  return [
+    '-v',
+    'error',
+    '-select_streams',
+    'v:0',
+    '-read_intervals',
+    `%+${SCAN_SECONDS}`,
+    '-show_entries',
+    'packet=pts_time',
+    '-of',
+    'csv=p=0',
+    inputPath,
+  ];
+}
+
+/**
+ * Whether the frame intervals in `pts` (seconds, any order) are irregular.
+ * Returns null when there are too few frames to tell.
+ */
+export function hasIrregularIntervals(pts: number[]): boolean | null {
+  const sorted = [...pts].sort((a, b) => a - b);
+  const intervals = sorted.slice(1).map((time, idx) => time - sorted[idx]);
+  if (intervals.length < 10) return null;
+
+  const median = [...intervals].sort((a, b) => a - b)[Math.floor(intervals.length / 2)];
+  if (median <= 0) return null;
+
+  const irregular = intervals.filter(
+    (interval) => Math.abs(interval - median) / median > INTERVAL_TOLERANCE
+  ).length;
+  return irregular / intervals.length > IRREGULAR_RATIO;
+}
+
+/**
+ * Scan the packet timestamps of the first minutes of the source.
+ */
+export async function scanFrameTimestamps(inputPath: string): Promise<boolean | null> {
+  const proc = Bun.spawn(['ffprobe', ...buildTimestampScanArgs(inputPath)], {
+    stdout: 'pipe',
+    stderr: 'pipe',
+  });
+  const tracked = trackProcess(proc);
+  const [output, stderr] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  const exitCode = await proc.exited;
+  await releaseProcess(tracked);
+
+  if (exitCode !== 0) {
+    throw new FrameRateError(`Timestamp scan failed with code ${exitCode}\n${stderr.slice(-2000)}`);
+  }
+
+  const pts = output
+    .split('\n')
+    .map((line) => parseFloat(line))
+    .filter((time) => !isNaN(time));
+  return hasIrregularIntervals(pts);
+}
+
+/**
+ * Exact form of a rate for the fps filter and DASH: NTSC rates as x/1001,
+ * e.g. "30000/1001", others as a plain number.
+ */
+export function formatRational(rate: number): string {
+  const ntsc = rate * 1.001;
+  if (!Number.isInteger(rate) && Math.abs(ntsc - Math.round(ntsc)) < 1e-6) {
+    return `${Math.round(ntsc) * 1000}/1001`;
+  }
+  return (Math.round(rate * 1000) / 1000).toString();
+}
+
+/**
+ * Constant rate a VFR source is normalized to: the nearest standard rate.
+ */
+export function getTargetFrameRate(video: VideoInfo): number {
+  return STANDARD_RATES.reduce((best, candidate) =>
+    Math.abs(candidate - video.frameRate) < Math.abs(best - video.frameRate) ? candidate : best
+  );
+}
+
+/**
+ * Frame rate of the full-rate renditions, after deinterlacing, inverse
+ * telecine or CFR normalization.
+ */
+export function getOutputFrameRate(video: VideoInfo): number {
+  if (video.variableFrameRate) return getTargetFrameRate(video);
+  return getDeinterlacedFrameRate(video);
+}
+
+/**
+ * How many source frames make up one frame of the rendition (1 when the
+ * rung has no cap or the source is under it).
+ */
+export function getFrameRateDivisor(video: VideoInfo, rendition: Rendition): number {
+  const rate = getOutputFrameRate(video);
+  if (!rendition.maxFrameRate) return 1;
+  // Tolerate NTSC rates against round caps (29.97 under 30)
+  return Math.max(Math.ceil(rate / (rendition.maxFrameRate * (1 + RATE_TOLERANCE))), 1);
+}
+
+export function getRenditionFrameRate(video: VideoInfo, rendition: Rendition): number {
+  return getOutputFrameRate(video) / getFrameRateDivisor(video, rendition);
+}
+
+/**
+ * Filter setting the rendition's constant frame rate. Null when the
+ * source's frames are kept as they are.
+ */
+export function buildFrameRateFilter(video: VideoInfo, rendition: Rendition): string | null {
+  if (!video.variableFrameRate && getFrameRateDivisor(video, rendition) === 1) return null;
+  return `fps=${formatRational(getRenditionFrameRate(video, rendition))}`;
+}
+
+/**
+ * e.g. "29.47 fps (variable, normalized to 29.97 fps)"
+ */
+export function formatFrameRate(video: VideoInfo): string {
+  const rate = `${video.frameRate.toFixed(2)} fps`;
+  if (!video.variableFrameRate) return rate;
+  return `${rate} (variable, normalized to ${getTargetFrameRate(video).toFixed(2)} fps)`;
+}
@@ -0,0 +1,557 @@
+import * as path from 'path';
+import type {
+  CLIArgs,
+  EncodingPreset,
+  HWAccelInfo,
+  LadderAnalysis,
+  Rendition,
+  RenditionJob,
+  SourceJob,
+  ToolStatus,
+  TrackSelector,
+} from './types.js';
+import { checkAllTools, getManualInstallInstructions } from './tool-checker.js';
+import { probeMedia, formatDuration, formatVideoGeometry } from './probe.js';
+import { formatScanType } from './deinterlace.js';
+import { formatFrameRate } from './frame-rate.js';
+import { formatCrop } from './crop.js';
+import { detectHWAcceleration, selectHWAccel } from './hw-detect.js';
+import { buildRenditionLadder } from './renditions.js';
+import {
+  runPipeline,
+  getDefaultOutputPath,
+  type PipelineOptions,
+  type PipelineResult,
+} from './pipeline.js';
+import { buildCommandPlan, formatCommandPlan } from './plan.js';
+import { getTranscodeSettings } from './transcoder.js';
+import { resolvePreset } from './presets.js';
+import { analyzeLadder, getSamples } from './per-title.js';
+import { createLogger, getLogger } from './logger.js';
+import { CancelledError, cancelRun, resetRunControl } from './run-control.js';
+import { loadRunState } from './run-state.js';
+import {
+  createEvent,
+  progressToEvent,
+  serializeEvent,
+  type TranscodeEvent,
+  type TranscodeEventInput,
+} from './events.js';
+
+// Exit codes for unattended runs
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_CANCELLED = 130;
+
+function jobLabel(job: RenditionJob): string {
+  return `${job.quality} ${job.codec.toUpperCase()}`;
+}
+
+function selectRenditions(ladder: Rendition[], job: SourceJob): Rendition[] {
+  if (!job.renditions) return ladder;
+
+  const unavailable = job.renditions.filter(
+    (quality) => !ladder.some((r) => r.quality === quality)
+  );
+  if (unavailable.length > 0) {
+    throw new Error(
+      `Rendition(s) ${unavailable.join(', ')} not available for this source. ` +
+        `Available: ${ladder.map((r) => r.quality).join(', ')}`
+    );
+  }
+  return ladder.filter((r) => job.renditions!.includes(r.quality));
+}
+
+/**
+ * Keep only the tracks matching the selectors (relative index or language).
+ * Without selectors every track is kept.
+ */
+function selectTracks<T extends { index: number; language: string }>(
+  streams: T[],
+  selectors: TrackSelector[] | undefined,
+  kind: string
+): T[] {
+  if (!selectors) return streams;
+
+  for (const selector of selectors) {
+    const matches = streams.some((s) =>
+      typeof selector === 'number' ? s.index === selector : s.language === selector
+    );
+    if (!matches) {
+      throw new Error(`No ${kind} track matches "${selector}"`);
+    }
+  }
+  return streams.filter((s) =>
+    selectors.some((selector) =>
+      typeof selector === 'number' ? s.index === selector : s.language === selector
+    )
+  );
+}
+
+/**
+ * Human-readable rendering of an event for plain text mode.
+ * Returns null for events that are not printed.
+ */
+function formatEventText(
+  event: TranscodeEvent,
+  lastReported: Map<string, number>
+): string | null {
+  switch (event.type) {
+    case 'tools_checked':
+      return null;
+    case 'probe': {
+      const { video } = event.mediaInfo;
+      return [
+        `Source: ${formatVideoGeometry(video)} ${video.codec} ` +
+          `${formatFrameRate(video)} ${video.hdrType}, ` +
+          (video.scanType !== 'progressive' ? `${formatScanType(video)}, ` : '') +
+          (video.crop ? `crop ${formatCrop(video)}, ` : '') +
+          `${formatDuration(event.mediaInfo.duration)}, ` +
+          `${event.mediaInfo.audioStreams.length} audio, ` +
+          `${event.mediaInfo.subtitleStreams.length} subtitle`,
+        ...event.mediaInfo.warnings.map((warning) => `Warning: ${warning}`),
+      ].join('\n');
+    }
+    case 'analysis_start':
+      return `Analyzing content for a per-title ladder (${event.encodes} sample encodes)...`;
+    case 'ladder':
+      return [
+        'Per-title ladder:',
+        ...event.decisions.map(
+          (d) => `  ${d.kept ? '✓' : '✗'} ${d.quality}: ${d.reason}`
+        ),
+      ].join('\n');
+    case 'run_start':
+      return [
+        `Output: ${event.outputPath}`,
+        `Mode: ${event.mode}${event.preset ? ` (preset: ${event.preset})` : ''}`,
+        `Renditions: ${event.renditions.join(', ')}`,
+        `Codecs: ${event.codecs.join(', ')}`,
+        `HW Accel: ${event.hwAccel}`,
+        `Starting ${event.totalJobs} transcode jobs`,
+      ].join('\n');
+    case 'extract_start':
+      return `Extracting ${event.kind}...`;
+    case 'extract_end':
+      return `Extracted ${event.extracted} ${event.kind} track(s)`;
+    case 'rendition_start':
+      return `[${jobLabel(event)}] Started`;
+    case 'progress': {
+      // Only print every 10% step to keep logs readable
+      const key = `${event.quality}_${event.codec}_${event.pass}`;
+      const step = Math.floor(event.percent / 10) * 10;
+      if ((lastReported.get(key) ?? -1) >= step) return null;
+      lastReported.set(key, step);
+      const passLabel = event.passes === 2 ? ` pass ${event.pass}/2` : '';
+      return (
+        `[${jobLabel(event)}]${passLabel} ${step}% ` +
+        `(${event.fps.toFixed(1)} fps, ${event.speed.toFixed(2)}x)`
+      );
+    }
+    case 'pass_complete':
+      return `[${jobLabel(event)}] Pass ${event.pass} complete`;
+    case 'rendition_complete':
+      return `[${jobLabel(event)}] Done: ${event.outputPath}`;
+    case 'rendition_failed':
+      return `[${jobLabel(event)}] FAILED: ${event.error.split('\n')[0]}`;
+    case 'warning':
+      return `Warning: ${event.message}`;
+    case 'packaging_start':
+      return 'Packaging with Shaka Packager...';
+    case 'packager_output':
+      return [
+        `HLS Playlist: ${event.output.hlsMasterPlaylist}`,
+        `DASH Manifest: ${event.output.dashManifest}`,
+      ].join('\n');
+    case 'summary':
+      return [
+        `Completed ${event.completed.length} job(s), ${event.failed.length} failed`,
+        ...event.failed.map(
+          (failed) => `  ✗ ${jobLabel(failed)}: ${failed.error.split('\n')[0]}`
+        ),
+      ].join('\n');
+    case 'source_start':
+      return `\n=== [${event.index + 1}/${event.total}] ${event.inputPath} ===`;
+    case 'source_end':
+      return event.error
+        ? `[${event.index + 1}/${event.total}] ${event.status.toUpperCase()}: ${event.error}`
+        : `[${event.index + 1}/${event.total}] ${event.status.toUpperCase()}`;
+    case 'batch_summary':
+      return [
+        '',
+        `Batch complete: ${event.succeeded}/${event.total} succeeded, ` +
+          `${event.partial} partial, ${event.failed} failed`,
+        `Report: ${event.reportPath}`,
+      ].join('\n');
+    case 'watch_start':
+      return `Watching ${event.watchDir} (every ${event.pollInterval}s), output to ${event.outputRoot}`;
+    case 'watch_source':
+      switch (event.status) {
+        case 'detected':
+          return `Detected ${event.inputPath}, waiting for it to stop growing`;
+        case 'processing':
+          return `\n=== Processing ${event.inputPath} ===`;
+        default:
+          return (
+            `${event.status.toUpperCase()}: ${event.inputPath} -> ${event.movedTo}` +
+            (event.error ? `\n  ${event.error}` : '')
+          );
+      }
+    case 'error':
+      return `Error: ${event.message}`;
+  }
+}
+
+export type Emit = (input: TranscodeEventInput) => void;
+
+/**
+ * Create the event sink for an unattended run: NDJSON on stdout with
+ * --json, otherwise human-readable text.
+ */
+export function createEmitter(json: boolean): Emit {
+  const lastReported = new Map<string, number>();
+
+  return (input) => {
+    const event = createEvent(input);
+    if (json) {
+      process.stdout.write(serializeEvent(event));
+      return;
+    }
+    const text = formatEventText(event, lastReported);
+    if (text === null) return;
+    const isError =
+      event.type === 'error' ||
+      event.type === 'rendition_failed' ||
+      event.type === 'warning' ||
+      (event.type === 'summary' && !event.success) ||
+      (event.type === 'source_end' && event.status !== 'success') ||
+      (event.type === 'watch_source' && event.status === 'failed');
+    if (isError) {
+      console.error(text);
+    } else {
+      console.log(text);
+    }
+  };
+}
+
+/**
+ * Check ffmpeg, ffprobe and packager. Unattended runs never try to install
+ * missing tools; an error event with install instructions is emitted instead.
+ */
+export async function checkRequiredTools(
+  emit: Emit,
+  required: Array<keyof ToolStatus> = ['ffmpeg', 'ffprobe', 'packager']
+): Promise<boolean> {
+  const tools = await checkAllTools();
+  emit({ type: 'tools_checked', tools });
+  const missingTools = required.filter((tool) => !tools[tool]);
+  if (missingTools.length === 0) return true;
+
+  emit({
+    type: 'error',
+    message: missingTools
+      .map(
+        (tool) =>
+          `Missing required tool: ${tool}. ${getManualInstallInstructions(tool)}`
+      )
+      .join('\n'),
+    exitCode: EXIT_FAILURE,
+  });
+  return false;
+}
+
+export interface SourceResult extends PipelineResult {
+  outputPath: string;
+}
+
+/**
+ * Probe a source and resolve everything runPipeline needs: selected tracks,
+ * renditions, HW acceleration and output directory.
+ */
+export async function resolveSource(
+  job: SourceJob,
+  emit: Emit,
+  availableHWAccel: HWAccelInfo[]
+): Promise<PipelineOptions> {
+  const probed = await probeMedia(job.inputPath, {
+    idet: job.idet,
+    vfrScan: job.vfrScan,
+    crop: job.crop,
+  });
+  const mediaInfo = {
+    ...probed,
+    audioStreams: selectTracks(probed.audioStreams, job.audioTracks, 'audio'),
+    subtitleStreams: selectTracks(
+      probed.subtitleStreams,
+      job.subtitleTracks,
+      'subtitle'
+    ),
+  };
+  emit({ type: 'probe', mediaInfo });
+
+  let renditions = selectRenditions(
+    buildRenditionLadder(mediaInfo.video, job.preset?.rungs),
+    job
+  );
+  let ladderAnalysis: LadderAnalysis | undefined;
+  if (job.perTitle) {
+    emit({
+      type: 'analysis_start',
+      renditions: renditions.map((r) => r.quality),
+      encodes: renditions.length * getSamples(mediaInfo.duration).length,
+    });
+    const { tonemap } = getTranscodeSettings(job.devMode ? 'dev' : 'prod', job.preset);
+    ladderAnalysis = await analyzeLadder(job.inputPath, mediaInfo, renditions, tonemap);
+    emit({ type: 'ladder', decisions: ladderAnalysis.decisions });
+    renditions = ladderAnalysis.renditions;
+  }
+
+  const { hwAccel, hybrid } = selectHWAccel(availableHWAccel, job.hw);
+
+  return {
+    sourcePath: job.inputPath,
+    outputPath: job.outputPath ?? getDefaultOutputPath(job.inputPath),
+    mediaInfo,
+    renditions,
+    codecs: job.codecs,
+    hwAccel,
+    hybrid,
+    devMode: job.devMode,
+    preset: job.preset,
+    ladderAnalysis,
+    threads: job.threads,
+    singleDecode: job.singleDecode,
+    chunked: job.chunked,
+  };
+}
+
+/**
+ * Probe one source and run it through the pipeline. Failed renditions are
+ * returned in the result; anything that stops the source entirely throws.
+ */
+export async function runSource(
+  job: SourceJob,
+  emit: Emit,
+  availableHWAccel: HWAccelInfo[]
+): Promise<SourceResult> {
+  createLogger(job.devMode);
+  resetRunControl();
+
+  try {
+    const options = await resolveSource(job, emit, availableHWAccel);
+    return await runResolvedSource(options, emit);
+  } catch (err) {
+    const logger = getLogger();
+    await logger.error(err instanceof Error ? err.message : 'Unknown error');
+    await logger.close();
+    throw err;
+  }
+}
+
+// Run the pipeline for resolved options, reporting through events
+async function runResolvedSource(options: PipelineOptions, emit: Emit): Promise<SourceResult> {
+  const { outputPath, renditions, hwAccel } = options;
+
+  const result = await runPipeline(options, {
+    onStart: (totalJobs) =>
+      emit({
+        type: 'run_start',
+        sourcePath: options.sourcePath,
+        outputPath,
+        mode: options.devMode ? 'dev' : 'prod',
+        preset: options.preset?.name,
+        renditions: renditions.map((r) => r.quality),
+        codecs: options.codecs,
+        hwAccel: hwAccel.displayName,
+        totalJobs,
+      }),
+    onExtractStart: (kind) => emit({ type: 'extract_start', kind }),
+    onExtractEnd: (kind, extracted) =>
+      emit({ type: 'extract_end', kind, extracted }),
+    onJobStart: (renditionJob) =>
+      emit({ type: 'rendition_start', ...renditionJob }),
+    onProgress: (progress) => emit(progressToEvent(progress)),
+    onPassComplete: (renditionJob, pass) =>
+      emit({ type: 'pass_complete', ...renditionJob, pass }),
+    onJobComplete: (renditionJob, outputFile) =>
+      emit({ type: 'rendition_complete', ...renditionJob, outputPath: outputFile }),
+    onJobError: (renditionJob, error) =>
+      emit({ type: 'rendition_failed', ...renditionJob, error }),
+    onPackagingStart: () => emit({ type: 'packaging_start' }),
+    onPackagingProgress: () => {},
+    onWarning: (message) => emit({ type: 'warning', message }),
+  });
+
+  emit({ type: 'packager_output', output: result.packagerOutput });
+  return { ...result, outputPath };
+}
+
+/**
+ * --resume: run what is left of the run recorded in the output directory,
+ * with its options.
+ */
+async function resumeSource(outputDir: string, emit: Emit): Promise<SourceResult> {
+  const state = await loadRunState(outputDir);
+  createLogger(state.options.devMode);
+  resetRunControl();
+
+  try {
+    return await runResolvedSource({ ...state.options, resume: true }, emit);
+  } catch (err) {
+    const logger = getLogger();
+    await logger.error(err instanceof Error ? err.message : 'Unknown error');
+    await logger.close();
+    throw err;
+  }
+}
+
+/**
+ * Ctrl+C or SIGTERM cancels the run, which stops its processes and leaves
+ * it resumable; a second one exits at once. Returns the cleanup.
+ */
+function cancelOnSignal(): () => void {
+  let cancelling = false;
+  const onSignal = () => {
+    if (cancelling) process.exit(EXIT_CANCELLED);
+    cancelling = true;
+    cancelRun();
+  };
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+  return () => {
+    process.off('SIGINT', onSignal);
+    process.off('SIGTERM', onSignal);
+  };
+}
+
+/**
+ * --dry-run: probe the source and print every command the run would
+ * execute without running any of them. With --json the plan is printed as
+ * a single JSON document instead of events, so plans can be diffed.
+ */
+async function runDryRun(args: CLIArgs, job: SourceJob): Promise<number> {
+  const emit = args.json ? () => {} : createEmitter(false);
+  const fail = (message: string) => {
+    console.error(`Error: ${message}`);
+    return EXIT_FAILURE;
+  };
+
+  // Only probing (and per-title sample encodes) run for real; ffmpeg is
+  // otherwise only used for HW detection if present
+  const tools = await checkAllTools();
+  const required: Array<keyof ToolStatus> = job.perTitle ? ['ffprobe', 'ffmpeg'] : ['ffprobe'];
+  const missing = required.find((tool) => !tools[tool]);
+  if (missing) {
+    return fail(`Missing required tool: ${missing}. ${getManualInstallInstructions(missing)}`);
+  }
+
+  try {
+    const options = await resolveSource(job, emit, await detectHWAcceleration());
+    const plan = buildCommandPlan(options);
+    console.log(args.json ? JSON.stringify(plan, null, 2) : formatCommandPlan(plan));
+    return EXIT_OK;
+  } catch (err) {
+    return fail(err instanceof Error ? err.message : 'Unknown error');
+  }
+}
+
+// Run one source to the summary event; returns the exit code
+async function runUnattended(
+  run: () => Promise<SourceResult>,
+  emit: Emit,
+  startedAt: number
+): Promise<number> {
+  const stopCancelling = cancelOnSignal();
+  try {
+    const result = await run();
+
+    const exitCode = result.failedJobs.length > 0 ? EXIT_FAILURE : EXIT_OK;
+    emit({
+      type: 'summary',
+      success: exitCode === EXIT_OK,
+      exitCode,
+      completed: result.completedJobs,
+      failed: result.failedJobs,
+      elapsed: Math.round((Date.now() - startedAt) / 1000),
+    });
+    return exitCode;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    const exitCode = err instanceof CancelledError ? EXIT_CANCELLED : EXIT_FAILURE;
+    emit({ type: 'error', message, exitCode });
+    return exitCode;
+  } finally {
+    stopCancelling();
+  }
+}
+
+/**
+ * Run the full pipeline without the Ink UI, for cron/CI and other
+ * environments without a TTY. Returns the process exit code.
+ *
+ * With --json, progress is written to stdout as NDJSON events (see
+ * events.ts) instead of text.
+ */
+export async function runHeadless(args: CLIArgs): Promise<number> {
+  const startedAt = Date.now();
+  const emit = createEmitter(args.json);
+
+  // --resume: the recorded options replace the source arguments
+  if (args.resumeDir) {
+    if (!(await checkRequiredTools(emit))) {
+      return EXIT_FAILURE;
+    }
+    const outputDir = path.resolve(args.resumeDir);
+    return runUnattended(() => resumeSource(outputDir, emit), emit, startedAt);
+  }
+
+  if (!args.inputPath) {
+    emit({
+      type: 'error',
+      message: '--input is required when running non-interactively',
+      exitCode: EXIT_USAGE,
+    });
+    return EXIT_USAGE;
+  }
+
+  let preset: EncodingPreset | undefined;
+  try {
+    preset = await resolvePreset(args.preset, args.configPath);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    emit({ type: 'error', message, exitCode: EXIT_USAGE });
+    return EXIT_USAGE;
+  }
+
+  const job: SourceJob = {
+    inputPath: args.inputPath,
+    outputPath: args.outputPath,
+    renditions: args.renditions,
+    codecs: args.codecs,
+    hw: args.hw,
+    devMode: args.devMode,
+    preset,
+    perTitle: args.perTitle,
+    idet: args.idet,
+    vfrScan: args.vfrScan,
+    crop: args.crop,
+    threads: args.threads,
+    singleDecode: args.singleDecode,
+    chunked: args.chunked,
+  };
+
+  if (args.dryRun) {
+    return runDryRun(args, job);
+  }
+
+  if (!(await checkRequiredTools(emit))) {
+    return EXIT_FAILURE;
+  }
+
+  return runUnattended(
+    async () => runSource(job, emit, await detectHWAcceleration()),
+    emit,
+    startedAt
+  );
+}
@@ -1,5 +1,11 @@
 import { $ } from 'bun';
-import type { HWAccelInfo, HWAccelMethod, HybridHWAccel } from './types.js';
+import type {
+  HWAccelInfo,
+  HWAccelMethod,
+  HWAccelSelection,
+  HWPreference,
+  HybridHWAccel,
+} from './types.js';
 
 const HW_ACCEL_CONFIGS: Record<Exclude<HWAccelMethod, 'software'>, HWAccelInfo> =
   {
@@ -8,60 +14,75 @@ const HW_ACCEL_CONFIGS: Record<Exclude<HWAccelMethod, 'software'>, HWAccelInfo>
       displayName: 'NVIDIA NVENC',
       hevcEncoder: 'hevc_nvenc',
       vp9Encoder: 'libvpx-vp9', // NVIDIA doesn't have VP9 HW encoder
+      av1Encoder: 'av1_nvenc', // Ada Lovelace (RTX 40) and newer
+      h264Encoder: 'h264_nvenc',
       hwaccelFlag: 'cuda',
       hwaccelOutputFormat: 'cuda',
       scaleFilter: 'scale_cuda',
       supportsVP9HW: false,
       supportsHEVC10bit: true, // Pascal and newer
       supportsVP910bit: false, // No VP9 HW at all
+      supportsAV1HW: true,
     },
     qsv: {
       method: 'qsv',
       displayName: 'Intel Quick Sync',
       hevcEncoder: 'hevc_qsv',
       vp9Encoder: 'vp9_qsv', // Intel has VP9 HW on newer chips (Coffee Lake+)
+      av1Encoder: 'av1_qsv', // Arc and Meteor Lake+
+      h264Encoder: 'h264_qsv',
       hwaccelFlag: 'qsv',
       hwaccelOutputFormat: 'qsv',
       scaleFilter: 'scale_qsv',
       supportsVP9HW: true, // Coffee Lake+ (UHD 630+)
       supportsHEVC10bit: true,
       supportsVP910bit: false, // VP9 encode is 8-bit only on Intel
+      supportsAV1HW: true,
     },
     amf: {
       method: 'amf',
       displayName: 'AMD AMF',
       hevcEncoder: 'hevc_amf',
       vp9Encoder: 'libvpx-vp9', // AMD doesn't have VP9 HW encoder
+      av1Encoder: 'av1_amf', // RDNA 3 and newer
+      h264Encoder: 'h264_amf',
       hwaccelFlag: 'auto',
       hwaccelOutputFormat: 'd3d11va',
       scaleFilter: 'scale',
       supportsVP9HW: false,
       supportsHEVC10bit: true,
       supportsVP910bit: false,
+      supportsAV1HW: true,
     },
     vaapi: {
       method: 'vaapi',
       displayName: 'VA-API (Linux)',
       hevcEncoder: 'hevc_vaapi',
       vp9Encoder: 'vp9_vaapi',
+      av1Encoder: 'av1_vaapi',
+      h264Encoder: 'h264_vaapi',
       hwaccelFlag: 'vaapi',
       hwaccelOutputFormat: 'vaapi',
       scaleFilter: 'scale_vaapi',
       supportsVP9HW: true, // Depends on GPU, assuming modern Intel
       supportsHEVC10bit: true,
       supportsVP910bit: false,
+      supportsAV1HW: true,
     },
     videotoolbox: {
       method: 'videotoolbox',
       displayName: 'VideoToolbox (macOS)',
       hevcEncoder: 'hevc_videotoolbox',
       vp9Encoder: 'libvpx-vp9', // macOS doesn't have VP9 HW encoder
+      av1Encoder: 'libsvtav1', // No AV1 HW encoder exposed by VideoToolbox
+      h264Encoder: 'h264_videotoolbox',
       hwaccelFlag: 'videotoolbox',
       hwaccelOutputFormat: 'videotoolbox_vld',
       scaleFilter: 'scale',
       supportsVP9HW: false,
       supportsHEVC10bit: true,
       supportsVP910bit: false,
+      supportsAV1HW: false,
     },
   };
 
@@ -70,6 +91,8 @@ const SOFTWARE_CONFIG: HWAccelInfo = {
   displayName: 'Software (CPU)',
   hevcEncoder: 'libx265',
   vp9Encoder: 'libvpx-vp9',
+  av1Encoder: 'libsvtav1',
+  h264Encoder: 'libx264',
   scaleFilter: 'scale',
 };
 
@@ -100,6 +123,82 @@ async function hasEncoder(encoders: string[], name: string): Promise<boolean> {
   return encoders.some((line) => line.includes(name));
 }
 
+/**
+ * Encode one blank frame with the encoder. FFmpeg builds list hardware
+ * encoders whether or not the GPU has them, so this is what tells an Ada
+ * NVIDIA or Arc Intel card from an older one.
+ */
+async function runTestEncode(config: HWAccelInfo, encoder: string): Promise<boolean> {
+  // Frames go to the device the encoder reads from
+  const device =
+    config.method === 'vaapi' ? ['-init_hw_device', 'vaapi=va', '-filter_hw_device', 'va'] : [];
+  const upload =
+    config.method === 'nvidia'
+      ? 'format=nv12,hwupload_cuda'
+      : config.method === 'vaapi'
+        ? 'format=nv12,hwupload'
+        : 'format=nv12';
+  try {
+    const proc = Bun.spawn(
+      [
+        'ffmpeg',
+        '-hide_banner',
+        '-loglevel',
+        'error',
+        ...device,
+        '-f',
+        'lavfi',
+        '-i',
+        'color=black:size=320x240:rate=1',
+        '-frames:v',
+        '1',
+        '-vf',
+        upload,
+        '-c:v',
+        encoder,
+        '-f',
+        'null',
+        '-',
+      ],
+      // A wedged driver must not hang detection
+      { stdout: 'ignore', stderr: 'ignore', timeout: 15_000 }
+    );
+    return (await proc.exited) === 0;
+  } catch {
+    return false;
+  }
+}
+
+// Encoder name -> test encode result, once per process
+const testEncodes = new Map<string, Promise<boolean>>();
+
+function canEncode(config: HWAccelInfo, encoder: string): Promise<boolean> {
+  let result = testEncodes.get(encoder);
+  if (!result) {
+    result = runTestEncode(config, encoder);
+    testEncodes.set(encoder, result);
+  }
+  return result;
+}
+
+/**
+ * AV1 hardware encoders only exist on recent GPUs; fall back to SVT-AV1 on
+ * the CPU when the device's AV1 encoder can't encode a test frame.
+ */
+async function withAV1Support(
+  config: HWAccelInfo,
+  encoders: string[]
+): Promise<HWAccelInfo> {
+  if (
+    config.supportsAV1HW &&
+    (await hasEncoder(encoders, config.av1Encoder)) &&
+    (await canEncode(config, config.av1Encoder))
+  ) {
+    return config;
+  }
+  return { ...config, av1Encoder: SOFTWARE_CONFIG.av1Encoder, supportsAV1HW: false };
+}
+
 export async function detectHWAcceleration(): Promise<HWAccelInfo[]> {
   const available: HWAccelInfo[] = [];
 
@@ -113,12 +212,12 @@ export async function detectHWAcceleration(): Promise<HWAccelInfo[]> {
     hwAccels.includes('cuda') &&
     (await hasEncoder(encoders, 'hevc_nvenc'))
   ) {
-    available.push(HW_ACCEL_CONFIGS.nvidia);
+    available.push(await withAV1Support(HW_ACCEL_CONFIGS.nvidia, encoders));
   }
 
   // Check Intel QSV
   if (hwAccels.includes('qsv') && (await hasEncoder(encoders, 'hevc_qsv'))) {
-    available.push(HW_ACCEL_CONFIGS.qsv);
+    available.push(await withAV1Support(HW_ACCEL_CONFIGS.qsv, encoders));
   }
 
   // Check AMD AMF (Windows)
@@ -126,7 +225,7 @@ export async function detectHWAcceleration(): Promise<HWAccelInfo[]> {
     (hwAccels.includes('d3d11va') || hwAccels.includes('dxva2')) &&
     (await hasEncoder(encoders, 'hevc_amf'))
   ) {
-    available.push(HW_ACCEL_CONFIGS.amf);
+    available.push(await withAV1Support(HW_ACCEL_CONFIGS.amf, encoders));
   }
 
   // Check VAAPI (Linux)
@@ -134,7 +233,7 @@ export async function detectHWAcceleration(): Promise<HWAccelInfo[]> {
     hwAccels.includes('vaapi') &&
     (await hasEncoder(encoders, 'hevc_vaapi'))
   ) {
-    available.push(HW_ACCEL_CONFIGS.vaapi);
+    available.push(await withAV1Support(HW_ACCEL_CONFIGS.vaapi, encoders));
   }
 
   // Check VideoToolbox (macOS)
@@ -142,7 +241,7 @@ export async function detectHWAcceleration(): Promise<HWAccelInfo[]> {
     hwAccels.includes('videotoolbox') &&
     (await hasEncoder(encoders, 'hevc_videotoolbox'))
   ) {
-    available.push(HW_ACCEL_CONFIGS.videotoolbox);
+    available.push(await withAV1Support(HW_ACCEL_CONFIGS.videotoolbox, encoders));
   }
 
   // Always include software fallback
@@ -160,6 +259,8 @@ export function getSoftwareAccel(): HWAccelInfo {
  * Uses the best HW for each codec:
  * - HEVC: Prefer NVIDIA > QSV > AMF > VAAPI > VideoToolbox > Software
  * - VP9: Prefer QSV > VAAPI (HW VP9) > Software (since NVIDIA/AMD don't have VP9 HW)
+ * - AV1: Prefer NVIDIA > QSV > AMF > VAAPI with AV1 HW > Software (SVT-AV1)
+ * - H.264: Same device as HEVC (every HEVC HW encoder also does H.264)
  *
  * Returns null if hybrid mode doesn't provide benefit over single HW.
  */
@@ -179,6 +280,9 @@ export function buildHybridConfig(
   // Find best VP9 encoder (prefer HW encoders)
   const vp9Priority: HWAccelMethod[] = ['qsv', 'vaapi', 'software'];
 
+  // Find best AV1 encoder (only GPUs with an AV1 HW encoder)
+  const av1Priority: HWAccelMethod[] = ['nvidia', 'qsv', 'amf', 'vaapi'];
+
   let bestHevc: HWAccelInfo | null = null;
   let bestVP9: HWAccelInfo | null = null;
 
@@ -212,12 +316,24 @@ export function buildHybridConfig(
     bestHevc = SOFTWARE_CONFIG;
   }
 
+  const bestAV1 =
+    av1Priority
+      .map((method) => available.find((a) => a.method === method))
+      .find((accel) => accel?.supportsAV1HW) ??
+    available.find((a) => a.method === 'software') ??
+    SOFTWARE_CONFIG;
+
   // Only return hybrid if different HW is used for each codec
-  // AND it provides actual benefit (i.e., VP9 gets HW acceleration)
-  if (bestHevc.method !== bestVP9.method && bestVP9.supportsVP9HW) {
+  // AND it provides actual benefit (i.e., VP9 or AV1 gets HW acceleration
+  // from a device other than the HEVC one)
+  const vp9Benefit = bestHevc.method !== bestVP9.method && bestVP9.supportsVP9HW;
+  const av1Benefit = bestHevc.method !== bestAV1.method && bestAV1.supportsAV1HW;
+  if (vp9Benefit || av1Benefit) {
     return {
       hevc: bestHevc,
       vp9: bestVP9,
+      av1: bestAV1,
+      h264: bestHevc,
     };
   }
 
@@ -231,12 +347,54 @@ export function buildHybridConfig(
 export function createHybridDisplayInfo(hybrid: HybridHWAccel): HWAccelInfo {
   return {
     method: 'software', // Placeholder, actual routing happens per-codec
-    displayName: `Hybrid: ${hybrid.hevc.displayName} (HEVC) + ${hybrid.vp9.displayName} (VP9)`,
+    displayName:
+      `Hybrid: ${hybrid.hevc.displayName} (HEVC) + ${hybrid.vp9.displayName} (VP9)` +
+      (hybrid.av1.method !== hybrid.hevc.method ? ` + ${hybrid.av1.displayName} (AV1)` : ''),
     hevcEncoder: hybrid.hevc.hevcEncoder,
     vp9Encoder: hybrid.vp9.vp9Encoder,
+    av1Encoder: hybrid.av1.av1Encoder,
+    h264Encoder: hybrid.h264.h264Encoder,
     scaleFilter: 'scale', // Will be overridden per-codec
     supportsVP9HW: hybrid.vp9.supportsVP9HW,
     supportsHEVC10bit: hybrid.hevc.supportsHEVC10bit,
     supportsVP910bit: hybrid.vp9.supportsVP910bit,
+    supportsAV1HW: hybrid.av1.supportsAV1HW,
   };
 }
+
+/**
+ * Resolve a requested HW preference (e.g. from --hw) against the detected
+ * accelerators. 'auto' picks hybrid when it helps, otherwise the best
+ * detected accelerator (detection order puts software last).
+ */
+export function selectHWAccel(
+  available: HWAccelInfo[],
+  preference: HWPreference
+): HWAccelSelection {
+  const hybrid = buildHybridConfig(available);
+
+  if (preference === 'auto') {
+    if (hybrid) {
+      return { hwAccel: createHybridDisplayInfo(hybrid), hybrid };
+    }
+    return { hwAccel: available[0] ?? SOFTWARE_CONFIG, hybrid: null };
+  }
+
+  if (preference === 'hybrid') {
+    if (!hybrid) {
+      throw new Error(
+        'Hybrid mode is not available: no separate hardware VP9 or AV1 encoder was detected'
+      );
+    }
+    return { hwAccel: createHybridDisplayInfo(hybrid), hybrid };
+  }
+
+  const accel = available.find((a) => a.method === preference);
+  if (!accel) {
+    const detected = available.map((a) => a.method).join(', ');
+    throw new Error(
+      `Hardware acceleration "${preference}" is not available. Detected: ${detected}`
+    );
+  }
+  return { hwAccel: accel, hybrid: null };
+}
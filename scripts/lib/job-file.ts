@@ -0,0 +1,324 @@
+import * as path from 'path';
+import type {
+  CLIArgs,
+  HWPreference,
+  RenditionQuality,
+  SourceJob,
+  TrackSelector,
+  VideoCodec,
+} from './types.js';
+import { VALID_CODECS, VALID_HW } from './cli-args.js';
+import { VALID_RENDITIONS } from './renditions.js';
+import { expandSourcePattern } from './sources.js';
+import { loadPresetConfig, selectPreset, type PresetConfig } from './presets.js';
+
+/**
+ * Batch job specification (--job <file.json>).
+ *
+ * {
+ *   "outputRoot": "/srv/vod",          // optional, outputs go to <outputRoot>/<source name>
+ *   "report": "season1_report.json",   // optional aggregate report path
+ *   "defaults": { "codecs": ["hevc"] },// optional, applied to every source
+ *   "sources": [
+ *     { "input": "ep01.mkv", "output": "/srv/vod/ep01", "renditions": ["1080p", "720p"] },
+ *     { "glob": "extras/*.mov", "audioTracks": ["eng"], "subtitleTracks": [] }
+ *   ]
+ * }
+ *
+ * Per-source (and default) fields: renditions, codecs, hw, mode, preset,
+ * audioTracks, subtitleTracks. Tracks are relative indices or language
+ * codes; presets name entries in the preset config file (see presets.ts).
+ * Relative paths are resolved against the job file's directory.
+ */
+export interface JobFileSpec {
+  outputRoot?: string;
+  report?: string;
+  defaults?: JobSourceOptions;
+  sources: JobSourceSpec[];
+}
+
+interface JobSourceOptions {
+  renditions?: RenditionQuality[];
+  codecs?: VideoCodec[];
+  hw?: HWPreference;
+  mode?: 'dev' | 'prod';
+  preset?: string;
+  audioTracks?: TrackSelector[];
+  subtitleTracks?: TrackSelector[];
+}
+
+interface JobSourceSpec extends JobSourceOptions {
+  input?: string;
+  glob?: string;
+  output?: string;
+}
+
+export interface BatchPlan {
+  sources: SourceJob[];
+  reportPath?: string;
+}
+
+export class JobFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobFileError';
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectString(value: unknown, at: string): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new JobFileError(`${at} must be a non-empty string`);
+  }
+  return value;
+}
+
+function expectEnum<T extends string>(
+  value: unknown,
+  valid: readonly T[],
+  at: string
+): T {
+  if (typeof value !== 'string' || !valid.includes(value.toLowerCase() as T)) {
+    throw new JobFileError(
+      `${at} must be one of: ${valid.join(', ')} (got ${JSON.stringify(value)})`
+    );
+  }
+  return value.toLowerCase() as T;
+}
+
+function expectEnumList<T extends string>(
+  value: unknown,
+  valid: readonly T[],
+  at: string
+): T[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new JobFileError(`${at} must be a non-empty array`);
+  }
+  return value.map((item, idx) => expectEnum(item, valid, `${at}[${idx}]`));
+}
+
+function expectTrackList(value: unknown, at: string): TrackSelector[] {
+  if (!Array.isArray(value)) {
+    throw new JobFileError(`${at} must be an array of track indices or language codes`);
+  }
+  return value.map((item, idx) => {
+    if (typeof item === 'number' && Number.isInteger(item) && item >= 0) {
+      return item;
+    }
+    if (typeof item === 'string' && item.trim() !== '') {
+      return item.trim().toLowerCase();
+    }
+    throw new JobFileError(
+      `${at}[${idx}] must be a track index (>= 0) or a language code`
+    );
+  });
+}
+
+const OPTION_KEYS = [
+  'renditions',
+  'codecs',
+  'hw',
+  'mode',
+  'preset',
+  'audioTracks',
+  'subtitleTracks',
+];
+
+function parseOptions(raw: JsonObject, at: string, allowed: string[]): JobSourceOptions {
+  for (const key of Object.keys(raw)) {
+    if (!allowed.includes(key)) {
+      throw new JobFileError(`${at}: unknown field "${key}"`);
+    }
+  }
+
+  const options: JobSourceOptions = {};
+  if (raw.renditions !== undefined) {
+    options.renditions = expectEnumList(raw.renditions, VALID_RENDITIONS, `${at}.renditions`);
+  }
+  if (raw.codecs !== undefined) {
+    options.codecs = expectEnumList(raw.codecs, VALID_CODECS, `${at}.codecs`);
+  }
+  if (raw.hw !== undefined) {
+    options.hw = expectEnum(raw.hw, VALID_HW, `${at}.hw`);
+  }
+  if (raw.mode !== undefined) {
+    options.mode = expectEnum(raw.mode, ['dev', 'prod'] as const, `${at}.mode`);
+  }
+  if (raw.preset !== undefined) {
+    options.preset = expectString(raw.preset, `${at}.preset`);
+  }
+  if (raw.audioTracks !== undefined) {
+    options.audioTracks = expectTrackList(raw.audioTracks, `${at}.audioTracks`);
+  }
+  if (raw.subtitleTracks !== undefined) {
+    options.subtitleTracks = expectTrackList(raw.subtitleTracks, `${at}.subtitleTracks`);
+  }
+  return options;
+}
+
+/**
+ * Validate a parsed job file against the JobFileSpec schema.
+ */
+export function validateJobFile(raw: unknown): JobFileSpec {
+  if (!isObject(raw)) {
+    throw new JobFileError('Job file must contain a JSON object');
+  }
+  for (const key of Object.keys(raw)) {
+    if (!['outputRoot', 'report', 'defaults', 'sources'].includes(key)) {
+      throw new JobFileError(`Unknown top-level field "${key}"`);
+    }
+  }
+
+  const spec: JobFileSpec = { sources: [] };
+  if (raw.outputRoot !== undefined) {
+    spec.outputRoot = expectString(raw.outputRoot, 'outputRoot');
+  }
+  if (raw.report !== undefined) {
+    spec.report = expectString(raw.report, 'report');
+  }
+  if (raw.defaults !== undefined) {
+    if (!isObject(raw.defaults)) {
+      throw new JobFileError('defaults must be an object');
+    }
+    spec.defaults = parseOptions(raw.defaults, 'defaults', OPTION_KEYS);
+  }
+
+  if (!Array.isArray(raw.sources) || raw.sources.length === 0) {
+    throw new JobFileError('sources must be a non-empty array');
+  }
+  spec.sources = raw.sources.map((entry, idx) => {
+    const at = `sources[${idx}]`;
+    if (!isObject(entry)) {
+      throw new JobFileError(`${at} must be an object`);
+    }
+    const source: JobSourceSpec = parseOptions(entry, at, [
+      ...OPTION_KEYS,
+      'input',
+      'glob',
+      'output',
+    ]);
+    if ((entry.input === undefined) === (entry.glob === undefined)) {
+      throw new JobFileError(`${at} must have exactly one of "input" or "glob"`);
+    }
+    if (entry.input !== undefined) {
+      source.input = expectString(entry.input, `${at}.input`);
+    }
+    if (entry.glob !== undefined) {
+      source.glob = expectString(entry.glob, `${at}.glob`);
+      if (entry.output !== undefined) {
+        throw new JobFileError(
+          `${at}.output cannot be used with "glob"; use outputRoot instead`
+        );
+      }
+    }
+    if (entry.output !== undefined) {
+      source.output = expectString(entry.output, `${at}.output`);
+    }
+    return source;
+  });
+
+  return spec;
+}
+
+function outputFor(inputPath: string, outputRoot?: string): string | undefined {
+  if (!outputRoot) return undefined;
+  return path.join(outputRoot, path.basename(inputPath, path.extname(inputPath)));
+}
+
+function toSourceJob(
+  inputPath: string,
+  outputPath: string | undefined,
+  options: JobSourceOptions,
+  args: CLIArgs,
+  presets: PresetConfig | null
+): SourceJob {
+  return {
+    inputPath,
+    outputPath,
+    renditions: options.renditions ?? args.renditions,
+    codecs: options.codecs ?? args.codecs,
+    hw: options.hw ?? args.hw,
+    devMode: options.mode ? options.mode === 'dev' : args.devMode,
+    preset: selectPreset(presets, options.preset ?? args.preset),
+    perTitle: args.perTitle,
+    idet: args.idet,
+    vfrScan: args.vfrScan,
+    crop: args.crop,
+    threads: args.threads,
+    singleDecode: args.singleDecode,
+    chunked: args.chunked,
+    audioTracks: options.audioTracks,
+    subtitleTracks: options.subtitleTracks,
+  };
+}
+
+/**
+ * Load a job file and expand it into the list of sources to process.
+ * CLI options act as defaults below the file's own defaults.
+ */
+export async function loadJobFile(filePath: string, args: CLIArgs): Promise<BatchPlan> {
+  let raw: unknown;
+  try {
+    raw = await Bun.file(filePath).json();
+  } catch (error) {
+    throw new JobFileError(
+      `Failed to read job file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  const spec = validateJobFile(raw);
+  const baseDir = path.dirname(path.resolve(filePath));
+  const outputRoot = spec.outputRoot
+    ? path.resolve(baseDir, spec.outputRoot)
+    : args.outputPath;
+
+  const presets = await loadPresetConfig(args.configPath);
+  const sources: SourceJob[] = [];
+  for (const entry of spec.sources) {
+    const options = { ...spec.defaults, ...entry };
+    if (entry.input) {
+      const inputPath = path.resolve(baseDir, entry.input);
+      const outputPath = entry.output
+        ? path.resolve(baseDir, entry.output)
+        : outputFor(inputPath, outputRoot);
+      sources.push(toSourceJob(inputPath, outputPath, options, args, presets));
+    } else if (entry.glob) {
+      const matches = await expandSourcePattern(entry.glob, baseDir);
+      if (matches.length === 0) {
+        throw new JobFileError(`No video files match "${entry.glob}"`);
+      }
+      for (const inputPath of matches) {
+        sources.push(
+          toSourceJob(inputPath, outputFor(inputPath, outputRoot), options, args, presets)
+        );
+      }
+    }
+  }
+
+  return {
+    sources,
+    reportPath: spec.report ? path.resolve(baseDir, spec.report) : args.reportPath,
+  };
+}
+
+/**
+ * Build a batch from --glob; --output is used as the output root.
+ */
+export async function planFromGlob(pattern: string, args: CLIArgs): Promise<BatchPlan> {
+  const matches = await expandSourcePattern(pattern);
+  if (matches.length === 0) {
+    throw new JobFileError(`No video files match "${pattern}"`);
+  }
+  const presets = await loadPresetConfig(args.configPath);
+  return {
+    sources: matches.map((inputPath) =>
+      toSourceJob(inputPath, outputFor(inputPath, args.outputPath), {}, args, presets)
+    ),
+    reportPath: args.reportPath,
+  };
+}
@@ -0,0 +1,170 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { probeOutputDuration } from './probe.js';
+
+/**
+ * Output journal.
+ *
+ * Every file an encode or extraction writes is recorded in a journal in its
+ * directory: a hash of the commands that write it, a fingerprint of the
+ * source, whether it completed and, once it has, its duration, size and
+ * checksum. An output is reused only when the journal says it completed
+ * with the same commands from the same source and the file still matches
+ * its checksum. A file left behind by a crash, a changed setting or a new
+ * source is written again, in dev and prod mode alike.
+ */
+
+const JOURNAL_FILE = '.transcode-journal.json';
+
+export class JournalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JournalError';
+  }
+}
+
+export interface JournalEntry {
+  params: string; // Hash of the commands that write the output, threads aside
+  source: string; // Source path, size and modification time
+  status: 'running' | 'complete'; // Still running after a crash, cancel or failure
+  duration: number | null; // Seconds, when ffprobe can read the output
+  size: number | null;
+  checksum: string | null; // SHA-256 of the completed output
+  updatedAt: string;
+}
+
+// What an output is written from: the source and every command run for it
+export interface JournalInputs {
+  sourcePath: string;
+  commands: string[][];
+}
+
+// Keyed by output file name
+interface Journal {
+  entries: Record<string, JournalEntry>;
+}
+
+// Outputs of one directory finish concurrently; their updates go one by one
+const writes = new Map<string, Promise<void>>();
+
+function getJournalPath(outputPath: string): string {
+  return path.join(path.dirname(outputPath), JOURNAL_FILE);
+}
+
+async function loadJournal(journalPath: string): Promise<Journal> {
+  try {
+    const journal = (await Bun.file(journalPath).json()) as Journal;
+    return { entries: journal.entries ?? {} };
+  } catch {
+    return { entries: {} };
+  }
+}
+
+async function saveJournal(journalPath: string, journal: Journal): Promise<void> {
+  // Write to a temp file and rename so a crash never leaves a torn journal
+  const tmpPath = `${journalPath}.tmp`;
+  await Bun.write(tmpPath, `${JSON.stringify(journal, null, 2)}\n`);
+  await fs.rename(tmpPath, journalPath);
+}
+
+function updateEntry(outputPath: string, entry: JournalEntry): Promise<void> {
+  const journalPath = getJournalPath(outputPath);
+  const write = (writes.get(journalPath) ?? Promise.resolve())
+    .catch(() => {})
+    .then(async () => {
+      const journal = await loadJournal(journalPath);
+      journal.entries[path.basename(outputPath)] = entry;
+      await saveJournal(journalPath, journal);
+    });
+  writes.set(journalPath, write);
+  return write.catch((err) => {
+    const error = err instanceof Error ? err.message : 'Unknown error';
+    throw new JournalError(`Could not update ${journalPath}: ${error}`);
+  });
+}
+
+async function getSourceFingerprint(sourcePath: string): Promise<string> {
+  const info = await fs.stat(sourcePath);
+  return `${path.resolve(sourcePath)}:${info.size}:${Math.floor(info.mtimeMs)}`;
+}
+
+// Software encoder threads (-threads, x265 pools) follow how many jobs run
+// side by side and don't change the output
+export function withoutThreadArgs(args: string[]): string[] {
+  return args
+    .filter((arg, idx) => arg !== '-threads' && args[idx - 1] !== '-threads')
+    .map((arg, idx, kept) =>
+      kept[idx - 1] === '-x265-params'
+        ? arg
+            .split(':')
+            .filter((param) => !param.startsWith('pools='))
+            .join(':')
+        : arg
+    );
+}
+
+function getParamsHash(commands: string[][]): string {
+  return Bun.hash(JSON.stringify(commands.map(withoutThreadArgs))).toString(16);
+}
+
+async function getChecksum(filePath: string): Promise<string> {
+  const hasher = new Bun.CryptoHasher('sha256');
+  for await (const chunk of Bun.file(filePath).stream()) {
+    hasher.update(chunk);
+  }
+  return hasher.digest('hex');
+}
+
+/**
+ * Whether the output can be reused: the journal has it complete from the
+ * same inputs and the file on disk is the one it recorded.
+ */
+export async function isOutputComplete(
+  outputPath: string,
+  inputs: JournalInputs
+): Promise<boolean> {
+  const journal = await loadJournal(getJournalPath(outputPath));
+  const entry = journal.entries[path.basename(outputPath)];
+  if (
+    entry?.status !== 'complete' ||
+    entry.params !== getParamsHash(inputs.commands) ||
+    entry.source !== (await getSourceFingerprint(inputs.sourcePath))
+  ) {
+    return false;
+  }
+
+  const info = await fs.stat(outputPath).catch(() => null);
+  return info?.size === entry.size && (await getChecksum(outputPath)) === entry.checksum;
+}
+
+// Before the first command runs
+export async function startOutput(outputPath: string, inputs: JournalInputs): Promise<void> {
+  await updateEntry(outputPath, {
+    params: getParamsHash(inputs.commands),
+    source: await getSourceFingerprint(inputs.sourcePath),
+    status: 'running',
+    duration: null,
+    size: null,
+    checksum: null,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+// Once the output is final (remuxed and verified)
+export async function completeOutput(outputPath: string, inputs: JournalInputs): Promise<void> {
+  const [source, info, duration, checksum] = await Promise.all([
+    getSourceFingerprint(inputs.sourcePath),
+    fs.stat(outputPath),
+    probeOutputDuration(outputPath),
+    getChecksum(outputPath),
+  ]);
+  await updateEntry(outputPath, {
+    params: getParamsHash(inputs.commands),
+    source,
+    status: 'complete',
+    duration,
+    size: info.size,
+    checksum,
+    updatedAt: new Date().toISOString(),
+  });
+}
@@ -0,0 +1,149 @@
+import { $ } from 'bun';
+import type { Rendition, VideoInfo } from './types.js';
+import { getFrameRateDivisor, getOutputFrameRate } from './frame-rate.js';
+
+/**
+ * Keyframe placement.
+ *
+ * The packager can only cut a segment at a keyframe, and players switch
+ * rungs at segment boundaries, so every rendition needs a keyframe on the
+ * same frame at the start of each segment.
+ *
+ * The keyframe interval is the segment duration rounded to whole frames of
+ * the ladder's slowest rung (5 s is 150 frames, 5.005 s, at 29.97), which
+ * makes it a whole number of frames on every rung: a 59.94 fps rung next to
+ * a 29.97 fps one keys every 300 frames. Keyframes are forced by frame
+ * count on top of -g, since encoders restart the GOP at scene cuts.
+ *
+ * After encoding, the keyframe timestamps of every rendition are read back
+ * and compared at each boundary.
+ */
+
+export const DEFAULT_SEGMENT_DURATION = 5; // Seconds
+
+export class KeyframeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyframeError';
+  }
+}
+
+export interface KeyframeTrack {
+  label: string; // e.g. "480p HEVC"
+  filePath: string;
+  frameRate: number;
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/**
+ * Seconds between keyframes for a ladder: the segment duration in whole
+ * frames of the rung with the largest frame rate divisor.
+ */
+export function getKeyframeInterval(
+  video: VideoInfo,
+  renditions: Rendition[],
+  segmentDuration: number
+): number {
+  const divisor = renditions
+    .map((rendition) => getFrameRateDivisor(video, rendition))
+    .reduce((lcm, value) => (lcm * value) / gcd(lcm, value), 1);
+  const gridRate = getOutputFrameRate(video) / divisor;
+  return Math.max(Math.round(segmentDuration * gridRate), 1) / gridRate;
+}
+
+export function getGopSize(frameRate: number, keyframeInterval: number): number {
+  return Math.max(Math.round(frameRate * keyframeInterval), 1);
+}
+
+/**
+ * GOP and forced keyframe arguments, the same for every encoder. Frames are
+ * counted at the rung's own constant rate, after the fps filter.
+ */
+export function buildKeyframeArgs(frameRate: number, keyframeInterval: number): string[] {
+  const gop = getGopSize(frameRate, keyframeInterval).toString();
+  return ['-g', gop, '-keyint_min', gop, '-force_key_frames', `expr:gte(n,n_forced*${gop})`];
+}
+
+// Packet flags are enough; nothing is decoded
+export function buildKeyframeProbeArgs(filePath: string): string[] {
+  return [
+    '-v',
+    'error',
+    '-select_streams',
+    'v:0',
+    '-show_entries',
+    'packet=pts_time,flags',
+    '-of',
+    'csv=p=0',
+    filePath,
+  ];
+}
+
+/**
+ * Keyframe timestamps from the probe's "pts_time,flags" lines, relative to
+ * the first one.
+ */
+export function parseKeyframeTimes(output: string): number[] {
+  const times = output
+    .split('\n')
+    .map((line) => line.trim().split(','))
+    .filter(([, flags]) => flags?.startsWith('K'))
+    .map(([time]) => parseFloat(time))
+    .filter((time) => !isNaN(time))
+    .sort((a, b) => a - b);
+  return times.map((time) => time - (times[0] ?? 0));
+}
+
+export async function readKeyframeTimes(filePath: string): Promise<number[]> {
+  let output: string;
+  try {
+    output = await $`ffprobe ${buildKeyframeProbeArgs(filePath)}`.quiet().text();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    throw new KeyframeError(`Could not read keyframes of ${filePath}: ${reason}`);
+  }
+  return parseKeyframeTimes(output);
+}
+
+/**
+ * Boundaries where a rendition has no keyframe. Returns one message per
+ * rendition and boundary; empty when everything lines up.
+ */
+export function findMisalignedKeyframes(
+  tracks: Array<KeyframeTrack & { keyframes: number[] }>,
+  keyframeInterval: number,
+  duration: number
+): string[] {
+  const problems: string[] = [];
+  // Half a frame of the fastest rung tells neighbouring frames apart
+  const tolerance = 0.5 / Math.max(...tracks.map((track) => track.frameRate));
+
+  for (let idx = 1; idx * keyframeInterval < duration; idx++) {
+    const boundary = idx * keyframeInterval;
+    for (const track of tracks) {
+      if (!track.keyframes.some((time) => Math.abs(time - boundary) < tolerance)) {
+        problems.push(`${track.label}: no keyframe at ${boundary.toFixed(3)}s`);
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * Read the keyframes of every encoded rendition and check them against the
+ * keyframe grid.
+ */
+export async function verifyKeyframeAlignment(
+  tracks: KeyframeTrack[],
+  keyframeInterval: number,
+  duration: number
+): Promise<string[]> {
+  const withKeyframes = [];
+  for (const track of tracks) {
+    withKeyframes.push({ ...track, keyframes: await readKeyframeTimes(track.filePath) });
+  }
+  return findMisalignedKeyframes(withKeyframes, keyframeInterval, duration);
+}
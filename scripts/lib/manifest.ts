@@ -0,0 +1,146 @@
+import * as path from 'path';
+import type { PackagerInput, VideoRange } from './types.js';
+import { formatRational } from './frame-rate.js';
+
+/**
+ * Post-processing of the manifests Shaka Packager writes.
+ *
+ * The packager only derives the transfer function from codec headers it
+ * parses, and HLG is easily lost that way. Every video variant is tagged
+ * with what it was actually encoded as: HLS gets VIDEO-RANGE on each
+ * EXT-X-STREAM-INF, DASH gets the CICP TransferCharacteristics property on
+ * each HDR Representation. Dolby Vision profile 8.1 renditions additionally
+ * get their supplemental codec (HLS SUPPLEMENTAL-CODECS, DASH
+ * scte214:supplementalCodecs) so players without Dolby Vision keep using
+ * the HDR10 base layer.
+ *
+ * Every variant also gets the frame rate it was encoded at (HLS FRAME-RATE,
+ * DASH frameRate), since rungs with a frame rate cap run below the source.
+ */
+
+const TRANSFER_SCHEME = 'urn:mpeg:mpegB:cicp:TransferCharacteristics';
+const SCTE214_NAMESPACE = 'urn:scte:dash:scte214-extensions';
+
+// What each video variant was encoded as, keyed by video base name
+type VideoSignal = Pick<PackagerInput, 'videoRange' | 'supplementalCodec' | 'frameRate'>;
+
+// ITU-T H.273 transfer characteristics
+const TRANSFER_CHARACTERISTICS: Record<VideoRange, number> = {
+  SDR: 1,
+  PQ: 16,
+  HLG: 18,
+};
+
+export function getVideoBaseName(input: Pick<PackagerInput, 'quality' | 'codec'>): string {
+  return `video_${input.quality}_${input.codec}`;
+}
+
+// Attribute values may be quoted strings containing commas (CODECS)
+function setAttribute(tag: string, name: string, value: string): string {
+  const pattern = new RegExp(`(?<=[:,])${name}=("[^"]*"|[^,]*)`);
+  return pattern.test(tag) ? tag.replace(pattern, `${name}=${value}`) : `${tag},${name}=${value}`;
+}
+
+/**
+ * Set VIDEO-RANGE (and SUPPLEMENTAL-CODECS for Dolby Vision) and FRAME-RATE
+ * on every variant whose media playlist is one of ours.
+ */
+export function tagHlsVideo(playlist: string, signals: Map<string, VideoSignal>): string {
+  const lines = playlist.split('\n');
+  for (let i = 0; i < lines.length - 1; i++) {
+    if (!lines[i].startsWith('#EXT-X-STREAM-INF:')) continue;
+    const signal = signals.get(path.basename(lines[i + 1].trim(), '.m3u8'));
+    if (signal?.videoRange) {
+      lines[i] = setAttribute(lines[i], 'VIDEO-RANGE', signal.videoRange);
+    }
+    if (signal?.supplementalCodec) {
+      lines[i] = setAttribute(lines[i], 'SUPPLEMENTAL-CODECS', `"${signal.supplementalCodec}"`);
+    }
+    if (signal?.frameRate) {
+      lines[i] = setAttribute(lines[i], 'FRAME-RATE', signal.frameRate.toFixed(3));
+    }
+  }
+  return lines.join('\n');
+}
+
+// Replaces the attribute when the packager already wrote it
+function setXmlAttribute(open: string, name: string, value: string): string {
+  const pattern = new RegExp(`\\s${name}="[^"]*"`);
+  if (pattern.test(open)) return open.replace(pattern, ` ${name}="${value}"`);
+  return open.replace(/\s*>$/, ` ${name}="${value}">`);
+}
+
+/**
+ * Set frameRate on video Representations, and add the TransferCharacteristics
+ * property to HDR ones and the SCTE 214 supplemental codec to Dolby Vision
+ * ones, matched by the segment folder in their SegmentTemplate.
+ */
+export function tagDashVideo(manifest: string, signals: Map<string, VideoSignal>): string {
+  let usesScte214 = false;
+  const tagged = manifest.replace(/<Representation\b[^>]*>[\s\S]*?<\/Representation>/g, (found) => {
+    const match = [...signals].find(([baseName]) => found.includes(`${baseName}/`));
+    const signal = match?.[1];
+    if (!signal) return found;
+
+    const frameRate = signal.frameRate;
+    const block = frameRate
+      ? found.replace(/^<Representation\b[^>]*>/, (open) =>
+          setXmlAttribute(open, 'frameRate', formatRational(frameRate))
+        )
+      : found;
+    if (block.includes(TRANSFER_SCHEME)) return block;
+    if (!signal.videoRange || signal.videoRange === 'SDR') return block;
+
+    const property = `<SupplementalProperty schemeIdUri="${TRANSFER_SCHEME}" value="${TRANSFER_CHARACTERISTICS[signal.videoRange]}"/>`;
+    return block.replace(/^<Representation\b[^>]*>/, (open) => {
+      if (!signal.supplementalCodec) return `${open}${property}`;
+
+      // "dvh1.08.06/db1p" -> codec and compatibility brand
+      usesScte214 = true;
+      const [codec, brand] = signal.supplementalCodec.split('/');
+      const attributes = ` scte214:supplementalCodecs="${codec}" scte214:supplementalProfiles="${brand}"`;
+      return `${open.replace(/\s*>$/, attributes)}>${property}`;
+    });
+  });
+
+  if (!usesScte214 || tagged.includes(SCTE214_NAMESPACE)) return tagged;
+  return tagged.replace(/<MPD\b/, `<MPD xmlns:scte214="${SCTE214_NAMESPACE}"`);
+}
+
+/**
+ * Tag both manifests in place. The video range is left out when every video
+ * input is SDR, which is what players assume anyway. Returns false (and
+ * leaves the manifests untouched) when there is nothing to tag.
+ */
+export async function applyVideoSignalling(
+  hlsPlaylist: string,
+  dashManifest: string,
+  inputs: PackagerInput[]
+): Promise<boolean> {
+  const signals = new Map<string, VideoSignal>();
+  for (const input of inputs) {
+    if (input.type === 'video') {
+      signals.set(getVideoBaseName(input), {
+        videoRange: input.videoRange,
+        supplementalCodec: input.supplementalCodec,
+        frameRate: input.frameRate,
+      });
+    }
+  }
+  const isHDR = [...signals.values()].some(
+    (signal) => signal.videoRange && signal.videoRange !== 'SDR'
+  );
+  if (!isHDR) {
+    for (const signal of signals.values()) delete signal.videoRange;
+  }
+  if (![...signals.values()].some((signal) => signal.videoRange || signal.frameRate)) {
+    return false;
+  }
+
+  const playlist = await Bun.file(hlsPlaylist).text();
+  await Bun.write(hlsPlaylist, tagHlsVideo(playlist, signals));
+
+  const manifest = await Bun.file(dashManifest).text();
+  await Bun.write(dashManifest, tagDashVideo(manifest, signals));
+  return true;
+}
@@ -5,8 +5,12 @@ import type {
   PackagerOutput,
   RenditionQuality,
   SubtitleType,
+  VideoCodec,
+  VideoRange,
 } from './types.js';
 import { getLogger } from './logger.js';
+import { applyVideoSignalling, getVideoBaseName } from './manifest.js';
+import { releaseProcess, trackProcess } from './run-control.js';
 
 export interface PackagerCallbacks {
   onStart: () => void;
@@ -15,9 +19,11 @@ export interface PackagerCallbacks {
   onError: (error: string) => void;
 }
 
+// Each codec gets its own DASH AdaptationSet and its own CODECS-tagged HLS
+// variants, so players without HEVC/VP9/AV1 support fall back to the H.264 set
 function buildVideoStreamArg(input: PackagerInput): string {
-  const { filePath, quality, codec } = input;
-  const baseFileName = `video_${quality}_${codec}`;
+  const baseFileName = getVideoBaseName(input);
+  const { filePath } = input;
   // Input is in tmp/ subfolder
   const inputFile = `tmp/${path.basename(filePath)}`;
   // Output goes to videos/<baseFileName>/ subfolder for init and segments
@@ -115,9 +121,49 @@ function buildStreamArg(input: PackagerInput, subtitleIndex?: number): string {
   }
 }
 
+// Manifest names, relative to the output directory (packager cwd)
+const HLS_MASTER_PLAYLIST = 'master.m3u8';
+const DASH_MANIFEST = 'manifest.mpd';
+
+/**
+ * Build the full Shaka Packager argument list. Paths are relative because
+ * the packager runs with the output directory as its cwd. `segmentDuration`
+ * is the keyframe interval (see getKeyframeInterval), so every segment is
+ * cut on a keyframe the encoders forced.
+ */
+export function buildPackagerArgs(inputs: PackagerInput[], segmentDuration: number): string[] {
+  const args: string[] = [];
+  const duration = Number(segmentDuration.toFixed(6)).toString();
+
+  // Add stream arguments (track subtitle index separately)
+  let subtitleIdx = 0;
+  for (const input of inputs) {
+    const streamArg = input.type === 'subtitle'
+      ? buildStreamArg(input, subtitleIdx++)
+      : buildStreamArg(input);
+    args.push(streamArg);
+  }
+
+  // Add output options
+  args.push(
+    '--segment_duration',
+    duration,
+    '--fragment_duration',
+    duration,
+    '--mpd_output',
+    DASH_MANIFEST,
+    '--hls_master_playlist_output',
+    HLS_MASTER_PLAYLIST,
+    '--generate_static_live_mpd'
+  );
+
+  return args;
+}
+
 export async function runPackager(
   inputs: PackagerInput[],
   outputDir: string,
+  segmentDuration: number,
   callbacks: PackagerCallbacks,
   devMode: boolean = false
 ): Promise<PackagerOutput> {
@@ -135,7 +181,7 @@ export async function runPackager(
   // Create subfolders for each stream's init and segment files
   for (const input of inputs) {
     if (input.type === 'video') {
-      const baseFileName = `video_${input.quality}_${input.codec}`;
+      const baseFileName = getVideoBaseName(input);
       await fs.mkdir(path.join(outputDir, 'videos', baseFileName), { recursive: true });
     } else if (input.type === 'audio') {
       const safeLang = input.language || 'und';
@@ -159,38 +205,15 @@ export async function runPackager(
     }
   }
 
-  // Use relative paths for packager output since cwd is outputDir
-  const hlsPlaylistRelative = 'master.m3u8';
-  const dashManifestRelative = 'manifest.mpd';
   // Absolute paths for return value
-  const hlsPlaylist = path.join(outputDir, hlsPlaylistRelative);
-  const dashManifest = path.join(outputDir, dashManifestRelative);
+  const hlsPlaylist = path.join(outputDir, HLS_MASTER_PLAYLIST);
+  const dashManifest = path.join(outputDir, DASH_MANIFEST);
 
-  // Build packager arguments
-  const args: string[] = [];
-
-  // Add stream arguments (track subtitle index separately)
-  let subtitleIdx = 0;
   for (const input of inputs) {
-    const streamArg = input.type === 'subtitle'
-      ? buildStreamArg(input, subtitleIdx++)
-      : buildStreamArg(input);
-    args.push(streamArg);
     await logger.info(`Stream: ${input.type} - ${input.filePath}`);
   }
 
-  // Add output options (use relative paths since cwd is outputDir)
-  args.push(
-    '--segment_duration',
-    '5',
-    '--fragment_duration',
-    '5',
-    '--mpd_output',
-    dashManifestRelative,
-    '--hls_master_playlist_output',
-    hlsPlaylistRelative,
-    '--generate_static_live_mpd'
-  );
+  const args = buildPackagerArgs(inputs, segmentDuration);
 
   await logger.logCommand('packager', args);
   callbacks.onProgress('Starting Shaka Packager...');
@@ -201,6 +224,7 @@ export async function runPackager(
       stdout: 'pipe',
       stderr: 'pipe',
     });
+    const tracked = trackProcess(proc);
 
     // Read stderr for progress
     const decoder = new TextDecoder();
@@ -220,6 +244,7 @@ export async function runPackager(
 
     const stdout = await new Response(proc.stdout).text();
     const exitCode = await proc.exited;
+    await releaseProcess(tracked);
 
     if (exitCode !== 0) {
       await logger.error(`Packager exited with code ${exitCode}`);
@@ -232,6 +257,10 @@ export async function runPackager(
     await logger.info(`HLS Playlist: ${hlsPlaylist}`);
     await logger.info(`DASH Manifest: ${dashManifest}`);
 
+    if (await applyVideoSignalling(hlsPlaylist, dashManifest, inputs)) {
+      await logger.info('Tagged video range and frame rates in manifests');
+    }
+
     // Clean up tmp folder in prod mode
     if (!devMode) {
       const tmpDir = path.join(outputDir, 'tmp');
@@ -266,7 +295,10 @@ export function preparePackagerInputs(
   videoFiles: Array<{
     path: string;
     quality: RenditionQuality;
-    codec: 'vp9' | 'hevc';
+    codec: VideoCodec;
+    videoRange?: VideoRange;
+    supplementalCodec?: string;
+    frameRate?: number;
   }>,
   audioFiles: Array<{ path: string; language: string; label?: string; index: number }>,
   subtitleFiles: Array<{
@@ -286,6 +318,9 @@ export function preparePackagerInputs(
       filePath: video.path,
       codec: video.codec,
       quality: video.quality,
+      videoRange: video.videoRange,
+      supplementalCodec: video.supplementalCodec,
+      frameRate: video.frameRate,
     });
   }
 
@@ -0,0 +1,231 @@
+import type {
+  LadderAnalysis,
+  MediaInfo,
+  Rendition,
+  RungDecision,
+  TonemapSettings,
+  VideoInfo,
+} from './types.js';
+import { buildSoftwareFilter, getVideoRange } from './transcoder.js';
+import { getSoftwareAccel } from './hw-detect.js';
+import { resolveTonemap } from './tonemap.js';
+import { releaseProcess, trackProcess } from './run-control.js';
+
+/**
+ * Per-title ladder generation (--per-title).
+ *
+ * Every rung is encoded with libx264 at a fixed CRF on a few short samples
+ * spread across the source. At constant quality the resulting bitrate tracks
+ * how hard the content is to compress, so the static ladder bitrates are
+ * scaled by how far the probe lands from what the rung was tuned for.
+ * A rung whose probe barely needs more bits than the rung below it gains no
+ * visible detail from the extra resolution and is dropped.
+ */
+
+const PROBE_CRF = 23;
+const PROBE_PRESET = 'veryfast';
+const SAMPLE_COUNT = 3;
+const SAMPLE_SECONDS = 8;
+
+// HEVC needs roughly 60% of the x264 bitrate for the same quality
+const HEVC_EFFICIENCY = 0.6;
+
+// Keep per-title bitrates within a sane range of the static ladder
+const MIN_FACTOR = 0.4;
+const MAX_FACTOR = 1.5;
+
+// A rung must need this much more bitrate than the rung below it at the
+// probe CRF to be worth keeping
+const MIN_DETAIL_GAIN = 1.25;
+
+export class PerTitleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PerTitleError';
+  }
+}
+
+interface Sample {
+  offset: number;
+  seconds: number;
+}
+
+/**
+ * Sample segments evenly spread across the source, skipping the very start
+ * and end (logos, credits). Short sources are probed as a single sample.
+ * A sample never runs past the end, so its length is what gets encoded.
+ */
+export function getSamples(duration: number): Sample[] {
+  // Unknown duration: the sample is as long as asked for
+  if (duration <= 0) return [{ offset: 0, seconds: SAMPLE_SECONDS }];
+  if (duration <= SAMPLE_SECONDS * SAMPLE_COUNT) {
+    return [{ offset: 0, seconds: Math.min(duration, SAMPLE_SECONDS) }];
+  }
+  return Array.from({ length: SAMPLE_COUNT }, (_, idx) => {
+    const offset = Math.floor((duration * (idx + 1)) / (SAMPLE_COUNT + 1));
+    return { offset, seconds: Math.min(duration - offset, SAMPLE_SECONDS) };
+  });
+}
+
+export function buildProbeArgs(
+  inputPath: string,
+  sample: Sample,
+  rendition: Rendition,
+  video: VideoInfo,
+  tonemap: TonemapSettings
+): string[] {
+  // The frames the HEVC rung is encoded from: made progressive, cropped and,
+  // for SDR rungs of HDR sources, tone-mapped
+  const tonemapped =
+    video.hdrType !== 'SDR' &&
+    getVideoRange(rendition, 'hevc', getSoftwareAccel(), video) === 'SDR';
+  const filter = buildSoftwareFilter(
+    rendition,
+    video,
+    tonemapped ? resolveTonemap(tonemap, rendition) : null
+  );
+  return [
+    '-hide_banner',
+    '-nostats',
+    '-ss',
+    sample.offset.toString(),
+    '-t',
+    sample.seconds.toString(),
+    '-i',
+    inputPath,
+    '-map',
+    '0:v:0',
+    '-vf',
+    `${filter},format=yuv420p`,
+    '-c:v',
+    'libx264',
+    '-preset',
+    PROBE_PRESET,
+    '-crf',
+    PROBE_CRF.toString(),
+    '-an',
+    '-f',
+    'null',
+    '-',
+  ];
+}
+
+// FFmpeg prints e.g. "video:1234kB audio:0kB ..." (newer builds: "KiB") when done
+function parseEncodedBytes(stderr: string): number | null {
+  const matches = [...stderr.matchAll(/video:\s*([\d.]+)\s*(?:kB|KiB)/g)];
+  if (matches.length === 0) return null;
+  return parseFloat(matches[matches.length - 1][1]) * 1024;
+}
+
+async function runProbe(args: string[]): Promise<number> {
+  const proc = Bun.spawn(['ffmpeg', ...args], {
+    stdout: 'ignore',
+    stderr: 'pipe',
+  });
+  const tracked = trackProcess(proc);
+  const stderr = await new Response(proc.stderr).text();
+  const exitCode = await proc.exited;
+  await releaseProcess(tracked);
+
+  if (exitCode !== 0) {
+    throw new PerTitleError(
+      `Sample encode failed with code ${exitCode}\n${stderr.slice(-2000)}`
+    );
+  }
+
+  const bytes = parseEncodedBytes(stderr);
+  if (bytes === null) {
+    throw new PerTitleError('Could not read encoded size from sample encode');
+  }
+  return bytes;
+}
+
+function roundBitrate(kbps: number): number {
+  return Math.max(50, Math.round(kbps / 50) * 50);
+}
+
+function scaleRendition(rendition: Rendition, factor: number): Rendition {
+  return {
+    ...rendition,
+    vp9Bitrate: roundBitrate(rendition.vp9Bitrate * factor),
+    hevcBitrate: roundBitrate(rendition.hevcBitrate * factor),
+    av1Bitrate: roundBitrate(rendition.av1Bitrate * factor),
+    h264Bitrate: roundBitrate(rendition.h264Bitrate * factor),
+    maxrate: roundBitrate(rendition.maxrate * factor),
+    bufsize: roundBitrate(rendition.bufsize * factor),
+  };
+}
+
+/**
+ * Run the CRF probes for every rung of the ladder and build the per-title
+ * ladder. `tonemap` is the run's tone-mapping, for the SDR rungs of HDR
+ * sources. `onProgress` is called after each sample encode.
+ */
+export async function analyzeLadder(
+  inputPath: string,
+  mediaInfo: MediaInfo,
+  ladder: Rendition[],
+  tonemap: TonemapSettings,
+  onProgress?: (done: number, total: number) => void
+): Promise<LadderAnalysis> {
+  const samples = getSamples(mediaInfo.duration);
+  const total = ladder.length * samples.length;
+  let done = 0;
+
+  // Measured bitrate at the probe CRF per rung, in kbps
+  const probes = new Map<Rendition, number>();
+  for (const rendition of ladder) {
+    let bytes = 0;
+    let seconds = 0;
+    for (const sample of samples) {
+      const args = buildProbeArgs(inputPath, sample, rendition, mediaInfo.video, tonemap);
+      bytes += await runProbe(args);
+      seconds += sample.seconds;
+      onProgress?.(++done, total);
+    }
+    probes.set(rendition, Math.round((bytes * 8) / 1000 / seconds));
+  }
+
+  // Walk the ladder bottom-up so each rung is compared with the last one kept
+  const decisions: RungDecision[] = [];
+  const renditions: Rendition[] = [];
+  let lastKept: { rendition: Rendition; probe: number } | null = null;
+
+  for (const rendition of [...ladder].reverse()) {
+    const probeBitrate = probes.get(rendition)!;
+    const rawFactor = (probeBitrate * HEVC_EFFICIENCY) / rendition.hevcBitrate;
+    const factor =
+      Math.round(Math.min(Math.max(rawFactor, MIN_FACTOR), MAX_FACTOR) * 100) / 100;
+
+    if (lastKept && probeBitrate < lastKept.probe * MIN_DETAIL_GAIN) {
+      const gain = (probeBitrate / lastKept.probe).toFixed(2);
+      decisions.push({
+        quality: rendition.quality,
+        probeBitrate,
+        factor,
+        kept: false,
+        reason: `only ${gain}x the bits of ${lastKept.rendition.quality} at CRF ${PROBE_CRF}; extra resolution adds no visible detail`,
+      });
+      continue;
+    }
+
+    const scaled = scaleRendition(rendition, factor);
+    const clamped = factor !== Math.round(rawFactor * 100) / 100 ? ' (clamped)' : '';
+    decisions.push({
+      quality: rendition.quality,
+      probeBitrate,
+      factor,
+      kept: true,
+      reason: `CRF ${PROBE_CRF} probe ${probeBitrate} kbps -> ${factor}x ladder${clamped}: HEVC ${rendition.hevcBitrate} -> ${scaled.hevcBitrate} kbps, VP9 ${rendition.vp9Bitrate} -> ${scaled.vp9Bitrate} kbps`,
+    });
+    renditions.unshift(scaled);
+    lastKept = { rendition, probe: probeBitrate };
+  }
+
+  return {
+    samples: samples.length,
+    sampleSeconds: samples[0].seconds,
+    renditions,
+    decisions: decisions.reverse(),
+  };
+}
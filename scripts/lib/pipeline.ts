@@ -0,0 +1,620 @@
+import * as path from 'path';
+import type {
+  EncodingPreset,
+  FailedJob,
+  HWAccelInfo,
+  HybridHWAccel,
+  LadderAnalysis,
+  MediaInfo,
+  PackagerInput,
+  PackagerOutput,
+  Rendition,
+  RenditionJob,
+  RenditionQuality,
+  TonemapSettings,
+  TranscodeProgress,
+  VideoCodec,
+  VideoRange,
+} from './types.js';
+import {
+  transcodeRendition,
+  transcodeSharedRenditions,
+  partitionSharedDecode,
+  usesHWEncoder,
+  extractSubtitles,
+  extractAudio,
+  ensureOutputDir,
+  ensureTmpDir,
+  getTranscodeSettings,
+  getAudioFileName,
+  getSubtitleFileName,
+  getVideoRange,
+  type TranscodeCallbacks,
+} from './transcoder.js';
+import { runPackager, preparePackagerInputs } from './packager.js';
+import { getLogger } from './logger.js';
+import { formatVideoGeometry } from './probe.js';
+import {
+  carriesDynamicMetadata,
+  extractDynamicMetadata,
+  getDolbyVisionCodec,
+  getDynamicMetadataLabel,
+  planDynamicMetadata,
+  type DynamicMetadata,
+} from './dynamic-hdr.js';
+import { detectPeakLuminance, needsPeakDetection } from './tonemap.js';
+import { formatScanType } from './deinterlace.js';
+import { getRenditionFrameRate } from './frame-rate.js';
+import { getKeyframeInterval, verifyKeyframeAlignment } from './keyframes.js';
+import {
+  getEncodeDevice,
+  getSharedEncodeThreads,
+  getThreadBudget,
+  runScheduled,
+  type ScheduledTask,
+} from './scheduler.js';
+import { canChunk, transcodeChunked } from './chunked.js';
+import { CancelledError, isCancelled, isSkipped, throwIfCancelled } from './run-control.js';
+import { createRunStateWriter, loadRunState, type RunState } from './run-state.js';
+
+export interface PipelineOptions {
+  sourcePath: string;
+  outputPath: string;
+  mediaInfo: MediaInfo;
+  renditions: Rendition[];
+  codecs: VideoCodec[];
+  hwAccel: HWAccelInfo;
+  hybrid: HybridHWAccel | null;
+  devMode: boolean;
+  preset?: EncodingPreset;
+  ladderAnalysis?: LadderAnalysis; // Set when renditions come from --per-title
+  tonemap?: Partial<TonemapSettings>; // Overrides the preset (TUI preview choice)
+  threads?: number; // CPU thread budget (--threads), defaults to every core
+  singleDecode?: boolean; // Share one decode between a codec's rungs (--single-decode)
+  chunked?: boolean; // Encode software rungs in parallel chunks (--chunked)
+  resume?: boolean; // Continue the run recorded in the output directory (--resume)
+}
+
+// Rendition/codec jobs run by one encoder process, or by one chunked encode
+export interface EncodeUnit {
+  codec: VideoCodec;
+  rungs: Rendition[];
+  mode: 'single' | 'shared' | 'chunked';
+}
+
+export interface PipelineCallbacks {
+  onStart: (totalJobs: number) => void;
+  onExtractStart: (kind: 'audio' | 'subtitles') => void;
+  onExtractEnd: (kind: 'audio' | 'subtitles', extracted: number) => void;
+  onJobStart: (job: RenditionJob) => void;
+  onProgress: (progress: TranscodeProgress) => void;
+  onPassComplete: (job: RenditionJob, pass: 1 | 2) => void;
+  onJobComplete: (job: RenditionJob, outputPath: string) => void;
+  onJobError: (job: RenditionJob, error: string) => void;
+  onPackagingStart: () => void;
+  onPackagingProgress: (message: string) => void;
+  onWarning: (message: string) => void;
+}
+
+export interface PipelineResult {
+  packagerOutput: PackagerOutput;
+  completedJobs: RenditionJob[];
+  failedJobs: FailedJob[];
+}
+
+export function getDefaultOutputPath(sourcePath: string): string {
+  const dir = path.dirname(sourcePath);
+  const baseName = path.basename(sourcePath, path.extname(sourcePath));
+  return path.join(dir, `${baseName}_output`);
+}
+
+/**
+ * Whether any rendition/codec pair of the run is tone-mapped to SDR.
+ */
+export function hasTonemappedRungs(options: PipelineOptions): boolean {
+  const { renditions, codecs, hwAccel, hybrid, mediaInfo } = options;
+  return renditions.some((rendition) =>
+    codecs.some(
+      (codec) =>
+        getVideoRange(rendition, codec, hybrid ? hybrid[codec] : hwAccel, mediaInfo.video) ===
+        'SDR'
+    )
+  );
+}
+
+/**
+ * Group the rendition/codec jobs into encodes, the same way for a run and
+ * for --dry-run. With --chunked, software rungs are split into chunks; with
+ * --single-decode the other CPU-decoded rungs of a codec share one process.
+ * Jobs `isDone` says are finished are left out.
+ */
+export function planEncodeUnits(
+  options: PipelineOptions,
+  dynamicMetadata: DynamicMetadata | null,
+  keyframeInterval: number,
+  isDone: (codec: VideoCodec, rendition: Rendition) => boolean = () => false
+): EncodeUnit[] {
+  const { renditions, codecs, hwAccel, hybrid, mediaInfo } = options;
+  return codecs.flatMap((codec) => {
+    const codecHWAccel = hybrid ? hybrid[codec] : hwAccel;
+    const pending = renditions.filter((rendition) => !isDone(codec, rendition));
+    const chunked = options.chunked
+      ? pending.filter((rendition) =>
+          canChunk(rendition, codec, codecHWAccel, mediaInfo, dynamicMetadata, keyframeInterval)
+        )
+      : [];
+    const remaining = pending.filter((rendition) => !chunked.includes(rendition));
+    const { shared, separate } = options.singleDecode
+      ? partitionSharedDecode(remaining, codec, codecHWAccel, mediaInfo.video)
+      : { shared: [], separate: remaining };
+    return [
+      ...chunked.map((rendition) => ({ codec, rungs: [rendition], mode: 'chunked' as const })),
+      ...(shared.length > 0 ? [{ codec, rungs: shared, mode: 'shared' as const }] : []),
+      ...separate.map((rendition) => ({ codec, rungs: [rendition], mode: 'single' as const })),
+    ];
+  });
+}
+
+export interface VideoFile {
+  path: string;
+  quality: RenditionQuality;
+  codec: VideoCodec;
+  videoRange: VideoRange;
+  supplementalCodec?: string;
+  frameRate: number;
+}
+
+/**
+ * Packager inputs for the transcoded videos plus the audio and subtitle
+ * tracks extracted to the tmp folder.
+ */
+export function buildPipelinePackagerInputs(
+  tmpDir: string,
+  mediaInfo: MediaInfo,
+  videoFiles: VideoFile[]
+): PackagerInput[] {
+  const audioFiles = mediaInfo.audioStreams.map((s, idx) => ({
+    path: path.join(tmpDir, getAudioFileName(s, idx)),
+    language: s.language,
+    label: s.title,
+    index: idx,
+  }));
+
+  const subtitleFiles = mediaInfo.subtitleStreams.map((s) => ({
+    path: path.join(tmpDir, getSubtitleFileName(s)),
+    language: s.language,
+    label: s.title,
+    type: s.type,
+    isDefault: s.isDefault,
+  }));
+
+  return preparePackagerInputs(videoFiles, audioFiles, subtitleFiles);
+}
+
+/**
+ * Run extraction, transcoding and packaging for an already probed source.
+ * Shared by the interactive App and the headless runner.
+ *
+ * Extractions and rendition/codec jobs run side by side within the device
+ * and CPU thread limits of scheduler.ts; with --chunked a software rung
+ * takes the whole budget for its chunk workers. A failing rendition does
+ * not abort the run; it is reported through onJobError and returned in
+ * failedJobs. Extraction and packaging errors are thrown, and so is a run
+ * where no rendition was encoded.
+ *
+ * Progress is kept in a state file (see run-state.ts). A run cancelled
+ * through run-control.ts throws a CancelledError once its processes are
+ * gone; jobs it interrupted are not reported as failed. Callers reset run
+ * control before probing, so a cancel during the probe stops the run too.
+ */
+export async function runPipeline(
+  options: PipelineOptions,
+  callbacks: PipelineCallbacks
+): Promise<PipelineResult> {
+  const {
+    sourcePath,
+    outputPath,
+    mediaInfo,
+    renditions,
+    codecs,
+    hwAccel,
+    hybrid,
+    devMode,
+    preset,
+    ladderAnalysis,
+  } = options;
+
+  // Cancelled while the source was being probed
+  throwIfCancelled();
+
+  await ensureOutputDir(outputPath);
+  const tmpDir = await ensureTmpDir(outputPath);
+
+  // Initialize logger with output directory in dev mode
+  const logger = getLogger();
+  await logger.init(outputPath);
+  await logger.info(`Source: ${sourcePath}`);
+  await logger.info(
+    `Media: ${formatVideoGeometry(mediaInfo.video)} ${mediaInfo.video.hdrType}, ` +
+      formatScanType(mediaInfo.video)
+  );
+  for (const warning of mediaInfo.warnings) {
+    await logger.warn(warning);
+  }
+
+  // --resume: jobs the stopped run skipped stay skipped. Finished outputs
+  // are reused through the output journal (see journal.ts)
+  const previous = options.resume ? await loadRunState(outputPath) : null;
+  const runState = await createRunStateWriter(outputPath, {
+    status: 'running',
+    options: { ...options, resume: undefined },
+    skipped: previous?.skipped ?? [],
+  });
+  if (previous) {
+    await logger.info(`Resuming: ${previous.skipped.length} rendition(s) skipped`);
+  }
+  // Losing the state file only costs resumability
+  const recordState = (change: (state: RunState) => void) => {
+    runState.update(change).catch(async (err) => {
+      const error = err instanceof Error ? err.message : 'Unknown error';
+      await logger.warn(`Could not save run state: ${error}`);
+    });
+  };
+  const stopCancelled = async () => {
+    await runState.update((state) => {
+      state.status = 'cancelled';
+    });
+    await logger.info('Run cancelled');
+    return new CancelledError(`Run cancelled; resume with --resume ${outputPath}`);
+  };
+
+  let settings = getTranscodeSettings(devMode ? 'dev' : 'prod', preset, options.tonemap);
+
+  await logger.info(`Mode: ${devMode ? 'DEV' : 'PROD'}`);
+  if (preset) {
+    await logger.info(`Preset: ${preset.name} ${JSON.stringify(settings)}`);
+  }
+  await logger.info(`Renditions: ${renditions.map(r => r.quality).join(', ')}`);
+  if (ladderAnalysis) {
+    await logger.section('Per-title ladder');
+    for (const decision of ladderAnalysis.decisions) {
+      await logger.info(
+        `${decision.quality}: ${decision.kept ? 'keep' : 'drop'} - ${decision.reason}`
+      );
+    }
+  }
+  await logger.info(`Codecs: ${codecs.join(', ')}`);
+  await logger.info(`HW Accel: ${hwAccel.displayName}`);
+  if (hybrid) {
+    await logger.info(
+      `Hybrid Mode: HEVC=${hybrid.hevc.displayName}, VP9=${hybrid.vp9.displayName}, AV1=${hybrid.av1.displayName}, H.264=${hybrid.h264.displayName}`
+    );
+  }
+
+  // HDR10+ / Dolby Vision: extracted once, HDR10 when that isn't possible
+  const warn = async (message: string) => {
+    await logger.warn(message);
+    callbacks.onWarning(message);
+  };
+  const plannedMetadata = planDynamicMetadata(mediaInfo.video, tmpDir);
+  let dynamicMetadata = plannedMetadata.metadata;
+  if (plannedMetadata.warning) {
+    await warn(plannedMetadata.warning);
+  }
+  if (dynamicMetadata) {
+    const label = getDynamicMetadataLabel(dynamicMetadata.type);
+    try {
+      await extractDynamicMetadata(sourcePath, dynamicMetadata);
+      await logger.info(`${label} metadata: ${dynamicMetadata.path}`);
+
+      // H.264 is SDR anyway
+      const hdr10Codecs = codecs.filter(
+        (codec) =>
+          codec !== 'h264' &&
+          !carriesDynamicMetadata(codec, hybrid ? hybrid[codec] : hwAccel, 'PQ')
+      );
+      if (hdr10Codecs.length > 0) {
+        await warn(
+          `${label} is only carried on software (libx265) HEVC rungs; ` +
+            `${hdr10Codecs.map((c) => c.toUpperCase()).join(', ')} HDR rungs are encoded as HDR10`
+        );
+      }
+    } catch (err) {
+      if (err instanceof CancelledError) throw await stopCancelled();
+      const error = err instanceof Error ? err.message : 'Unknown error';
+      await warn(`Could not extract ${label} metadata (${error}); encoding HDR10`);
+      dynamicMetadata = null;
+    }
+  }
+
+  // Measured once; every tone-mapped rung without its own peak uses it
+  if (needsPeakDetection(mediaInfo.video, settings.tonemap) && hasTonemappedRungs(options)) {
+    try {
+      const peak = await detectPeakLuminance(sourcePath);
+      await logger.info(`Detected peak luminance: ${peak} nits`);
+      settings = { ...settings, tonemap: { ...settings.tonemap, peak } };
+    } catch (err) {
+      if (err instanceof CancelledError) throw await stopCancelled();
+      const error = err instanceof Error ? err.message : 'Unknown error';
+      await warn(`Peak detection failed (${error}); tone-mapping with the stream's metadata`);
+    }
+  }
+
+  const keyframeInterval = getKeyframeInterval(
+    mediaInfo.video,
+    renditions,
+    settings.segmentDuration
+  );
+  await logger.info(`Keyframe interval: ${keyframeInterval.toFixed(3)}s`);
+
+  // One job per codec for each rendition
+  callbacks.onStart(renditions.length * codecs.length);
+
+  const threadBudget = getThreadBudget(options.threads);
+  await logger.info(`CPU thread budget: ${threadBudget}`);
+
+  // Extractions are short and packaging waits on them, so they go first
+  const extractTasks: ScheduledTask<void>[] = [];
+  if (mediaInfo.subtitleStreams.length > 0) {
+    extractTasks.push({
+      label: 'subtitles',
+      device: 'cpu',
+      priority: Infinity,
+      threads: 1,
+      run: async () => {
+        callbacks.onExtractStart('subtitles');
+        const extracted = await extractSubtitles(sourcePath, tmpDir, mediaInfo.subtitleStreams);
+        callbacks.onExtractEnd('subtitles', extracted.size);
+      },
+    });
+  }
+  if (mediaInfo.audioStreams.length > 0) {
+    extractTasks.push({
+      label: 'audio',
+      device: 'cpu',
+      priority: Infinity,
+      threads: 1,
+      run: async () => {
+        callbacks.onExtractStart('audio');
+        const extracted = await extractAudio(sourcePath, tmpDir, mediaInfo.audioStreams);
+        callbacks.onExtractEnd('audio', extracted.size);
+      },
+    });
+  }
+
+  const videoFiles: VideoFile[] = [];
+  const completedJobs: RenditionJob[] = [];
+  const failedJobs: FailedJob[] = [];
+
+  const addVideoFile = (
+    rendition: Rendition,
+    codec: VideoCodec,
+    codecHWAccel: HWAccelInfo,
+    outputFile: string
+  ) => {
+    const videoRange = getVideoRange(rendition, codec, codecHWAccel, mediaInfo.video);
+    const dolbyVision =
+      dynamicMetadata?.type === 'DolbyVision' &&
+      carriesDynamicMetadata(codec, codecHWAccel, videoRange);
+    const frameRate = getRenditionFrameRate(mediaInfo.video, rendition);
+    videoFiles.push({
+      path: outputFile,
+      quality: rendition.quality,
+      codec,
+      videoRange,
+      supplementalCodec: dolbyVision
+        ? getDolbyVisionCodec(rendition.width, rendition.height, frameRate)
+        : undefined,
+      frameRate,
+    });
+    completedJobs.push({ codec, quality: rendition.quality });
+  };
+  // Continue with the remaining jobs even if this one fails. Jobs stopped
+  // by a cancel are left for --resume
+  const failJob = (job: RenditionJob, error: string) => {
+    if (isCancelled()) return;
+    failedJobs.push({ ...job, error });
+    callbacks.onJobError(job, error);
+    if (isSkipped(job)) {
+      recordState((state) => state.skipped.push(job));
+    }
+  };
+  const getJobCallbacks = (job: RenditionJob): TranscodeCallbacks => ({
+    onProgress: callbacks.onProgress,
+    onPassComplete: (pass) => callbacks.onPassComplete(job, pass),
+    onComplete: (_codec, _quality, completedPath) => callbacks.onJobComplete(job, completedPath),
+    onError: (_codec, _quality, error) => failJob(job, error),
+  });
+
+  // Skipped in the run being resumed
+  const wasSkipped = (codec: VideoCodec, rendition: Rendition) =>
+    runState.state.skipped.some((job) => job.codec === codec && job.quality === rendition.quality);
+  for (const codec of codecs) {
+    for (const rendition of renditions.filter((r) => wasSkipped(codec, r))) {
+      const job: RenditionJob = { codec, quality: rendition.quality };
+      failedJobs.push({ ...job, error: 'Skipped' });
+      callbacks.onJobError(job, 'Skipped');
+    }
+  }
+
+  const units = planEncodeUnits(options, dynamicMetadata, keyframeInterval, wasSkipped);
+
+  const encodeTasks = units.map(({ codec, rungs, mode }): ScheduledTask<void> => {
+    // Hybrid mode uses different HW per codec
+    const codecHWAccel = hybrid ? hybrid[codec] : hwAccel;
+    const onGpu = usesHWEncoder(codec, codecHWAccel);
+    const threads = onGpu
+      ? rungs.map(() => null)
+      : mode === 'chunked'
+        ? [threadBudget]
+        : getSharedEncodeThreads(rungs, threadBudget);
+    const passes = codec === 'vp9' && settings.passes === 2 ? 2 : 1;
+
+    return {
+      label: `${rungs.map((rendition) => rendition.quality).join(', ')} ${codec.toUpperCase()}`,
+      device: getEncodeDevice(codecHWAccel, onGpu),
+      priority:
+        rungs.reduce((sum, rendition) => sum + rendition.width * rendition.height, 0) * passes,
+      threads: threads.reduce<number>((sum, count) => sum + (count ?? 1), 0),
+      // Every output of a shared NVENC process is a session of its own
+      sessions: onGpu ? rungs.length : 1,
+      run: async () => {
+        for (const rendition of rungs) {
+          callbacks.onJobStart({ codec, quality: rendition.quality });
+        }
+
+        if (mode === 'shared') {
+          const outputFiles = await transcodeSharedRenditions(
+            sourcePath,
+            tmpDir,
+            rungs,
+            codec,
+            codecHWAccel,
+            mediaInfo,
+            settings,
+            keyframeInterval,
+            (rendition) => getJobCallbacks({ codec, quality: rendition.quality }),
+            dynamicMetadata,
+            threads
+          );
+          outputFiles.forEach((outputFile, idx) => {
+            if (outputFile) addVideoFile(rungs[idx], codec, codecHWAccel, outputFile);
+          });
+          return;
+        }
+
+        const [rendition] = rungs;
+        try {
+          if (mode === 'chunked') {
+            const outputFile = await transcodeChunked(
+              sourcePath,
+              tmpDir,
+              rendition,
+              codec,
+              codecHWAccel,
+              mediaInfo,
+              settings,
+              keyframeInterval,
+              getJobCallbacks({ codec, quality: rendition.quality }),
+              threadBudget
+            );
+            addVideoFile(rendition, codec, codecHWAccel, outputFile);
+            return;
+          }
+
+          const outputFile = await transcodeRendition(
+            sourcePath,
+            tmpDir,
+            rendition,
+            codec,
+            codecHWAccel,
+            mediaInfo,
+            settings,
+            keyframeInterval,
+            getJobCallbacks({ codec, quality: rendition.quality }),
+            dynamicMetadata,
+            threads[0]
+          );
+          if (outputFile) addVideoFile(rendition, codec, codecHWAccel, outputFile);
+        } catch {
+          // Already reported through onError
+        }
+      },
+    };
+  });
+
+  const results = await runScheduled([...extractTasks, ...encodeTasks], threadBudget);
+  if (isCancelled()) {
+    throw await stopCancelled();
+  }
+
+  // The packager needs every extracted track
+  const extractFailure = results
+    .slice(0, extractTasks.length)
+    .find((result) => result.error !== undefined);
+  if (extractFailure) {
+    throw new Error(`Could not extract ${extractFailure.task.label}: ${extractFailure.error}`);
+  }
+
+  // A task that broke before reporting its jobs fails whatever is left
+  results.slice(extractTasks.length).forEach((result, idx) => {
+    if (result.error === undefined) return;
+    for (const rendition of units[idx].rungs) {
+      const job: RenditionJob = { codec: units[idx].codec, quality: rendition.quality };
+      const reported = [...completedJobs, ...failedJobs].some(
+        (other) => other.codec === job.codec && other.quality === job.quality
+      );
+      if (!reported) failJob(job, result.error);
+    }
+  });
+
+  // Ladder order, whichever job finished first
+  const ladderIndex = (job: RenditionJob) =>
+    renditions.findIndex((rendition) => rendition.quality === job.quality) * codecs.length +
+    codecs.indexOf(job.codec);
+  const byLadder = (a: RenditionJob, b: RenditionJob) => ladderIndex(a) - ladderIndex(b);
+  videoFiles.sort(byLadder);
+  completedJobs.sort(byLadder);
+  failedJobs.sort(byLadder);
+
+  // Audio and subtitles alone make a broken manifest
+  if (videoFiles.length === 0) {
+    throw new Error(`No rendition was encoded (${failedJobs.length} failed); nothing to package`);
+  }
+
+  // Segments can only be cut where every rendition has a keyframe
+  try {
+    const problems = await verifyKeyframeAlignment(
+      videoFiles.map((file) => ({
+        label: `${file.quality} ${file.codec.toUpperCase()}`,
+        filePath: file.path,
+        frameRate: file.frameRate,
+      })),
+      keyframeInterval,
+      mediaInfo.duration
+    );
+    if (problems.length === 0) {
+      await logger.info(`Keyframes aligned across ${videoFiles.length} renditions`);
+    } else {
+      for (const problem of problems) {
+        await logger.warn(`Keyframe alignment: ${problem}`);
+      }
+      callbacks.onWarning(
+        `Keyframes are not aligned at ${problems.length} segment boundaries; ` +
+          'players may stall when switching renditions (see log)'
+      );
+    }
+  } catch (err) {
+    const error = err instanceof Error ? err.message : 'Unknown error';
+    await warn(`Could not check keyframe alignment (${error})`);
+  }
+
+  // Package
+  callbacks.onPackagingStart();
+
+  const inputs = buildPipelinePackagerInputs(tmpDir, mediaInfo, videoFiles);
+
+  let packagerOutput: PackagerOutput;
+  try {
+    packagerOutput = await runPackager(
+      inputs,
+      outputPath,
+      keyframeInterval,
+      {
+        onStart: () => {},
+        onProgress: callbacks.onPackagingProgress,
+        onComplete: () => {},
+        onError: () => {},
+      },
+      devMode
+    );
+  } catch (err) {
+    if (err instanceof CancelledError) throw await stopCancelled();
+    throw err;
+  }
+
+  await runState.clear();
+  await logger.close();
+
+  return { packagerOutput, completedJobs, failedJobs };
+}
@@ -0,0 +1,387 @@
+import * as path from 'path';
+import type {
+  Rendition,
+  RenditionQuality,
+  TranscodeMode,
+  VideoCodec,
+} from './types.js';
+import {
+  planTranscode,
+  planSharedTranscode,
+  usesHWEncoder,
+  buildAudioExtractArgs,
+  buildSubtitleExtractArgs,
+  getAudioFileName,
+  getSubtitleFileName,
+  getTranscodeSettings,
+  type TranscodePlan,
+} from './transcoder.js';
+import { buildPackagerArgs } from './packager.js';
+import {
+  buildMetadataExtractArgs,
+  getDolbyVisionCodec,
+  planDynamicMetadata,
+} from './dynamic-hdr.js';
+import { buildPeakDetectArgs, needsPeakDetection } from './tonemap.js';
+import { getRenditionFrameRate } from './frame-rate.js';
+import { buildKeyframeProbeArgs, getKeyframeInterval } from './keyframes.js';
+import { getEncodeThreads, getSharedEncodeThreads, getThreadBudget } from './scheduler.js';
+import { buildConcatList, planChunkedTranscode } from './chunked.js';
+import {
+  buildPipelinePackagerInputs,
+  hasTonemappedRungs,
+  planEncodeUnits,
+  type PipelineOptions,
+  type VideoFile,
+} from './pipeline.js';
+
+export interface PlannedCommand {
+  stage:
+    | 'extract-subtitles'
+    | 'extract-audio'
+    | 'extract-metadata'
+    | 'detect-peak'
+    | 'transcode'
+    | 'join'
+    | 'remux'
+    | 'check-keyframes'
+    | 'package';
+  tool: 'ffmpeg' | 'ffprobe' | 'packager' | 'MP4Box';
+  args: string[];
+  pipeTo?: { tool: string; args: string[] }; // stdout piped into a second tool
+  cwd?: string;
+  quality?: RenditionQuality;
+  qualities?: RenditionQuality[]; // Every rung of a --single-decode transcode
+  codec?: VideoCodec;
+  pass?: 1 | 2;
+  passes?: number;
+  chunk?: number; // Position of a --chunked transcode
+  chunks?: number;
+  createDir?: string; // Made before the command runs
+  writeFile?: { path: string; content: string }; // Written before the command runs
+  track?: number; // Position in the selected audio/subtitle list
+}
+
+/**
+ * Everything a run would execute, in order. Contains no timestamps so two
+ * plans can be diffed across versions of the tool.
+ */
+export interface CommandPlan {
+  sourcePath: string;
+  outputPath: string;
+  mode: TranscodeMode;
+  preset: string | null;
+  hwAccel: string;
+  codecs: VideoCodec[];
+  renditions: Rendition[];
+  commands: PlannedCommand[];
+}
+
+/**
+ * Build the command plan for a pipeline run (--dry-run). Mirrors the order
+ * runPipeline executes in: dynamic HDR metadata, subtitles, audio, every
+ * rendition/codec pair, the keyframe alignment check, then packaging. A
+ * real run schedules the extractions and encodes side by side (see
+ * scheduler.ts); they are listed in ladder order, with each --single-decode
+ * process ahead of the rest, and each --chunked rendition as its chunk
+ * passes followed by the join. Assumes metadata extraction succeeds; a real
+ * run falls back to HDR10 if it doesn't. Tone-mapped rungs are shown
+ * without the peak a detection pass would measure.
+ */
+export function buildCommandPlan(options: PipelineOptions): CommandPlan {
+  const { sourcePath, outputPath, mediaInfo, renditions, codecs, hwAccel, hybrid } =
+    options;
+  const tmpDir = path.join(outputPath, 'tmp');
+  const settings = getTranscodeSettings(
+    options.devMode ? 'dev' : 'prod',
+    options.preset,
+    options.tonemap
+  );
+  const commands: PlannedCommand[] = [];
+
+  const { metadata } = planDynamicMetadata(mediaInfo.video, tmpDir);
+  if (metadata) {
+    const { ffmpegArgs, tool, toolArgs } = buildMetadataExtractArgs(sourcePath, metadata);
+    commands.push({
+      stage: 'extract-metadata',
+      tool: 'ffmpeg',
+      args: ffmpegArgs,
+      pipeTo: { tool, args: toolArgs },
+    });
+  }
+
+  if (needsPeakDetection(mediaInfo.video, settings.tonemap) && hasTonemappedRungs(options)) {
+    commands.push({
+      stage: 'detect-peak',
+      tool: 'ffmpeg',
+      args: buildPeakDetectArgs(sourcePath),
+    });
+  }
+
+  mediaInfo.subtitleStreams.forEach((stream, idx) => {
+    commands.push({
+      stage: 'extract-subtitles',
+      tool: 'ffmpeg',
+      args: buildSubtitleExtractArgs(
+        sourcePath,
+        path.join(tmpDir, getSubtitleFileName(stream)),
+        stream
+      ),
+      track: idx,
+    });
+  });
+
+  mediaInfo.audioStreams.forEach((stream, idx) => {
+    commands.push({
+      stage: 'extract-audio',
+      tool: 'ffmpeg',
+      args: buildAudioExtractArgs(
+        sourcePath,
+        path.join(tmpDir, getAudioFileName(stream, idx)),
+        stream
+      ),
+      track: idx,
+    });
+  });
+
+  const keyframeInterval = getKeyframeInterval(
+    mediaInfo.video,
+    renditions,
+    settings.segmentDuration
+  );
+  const threadBudget = getThreadBudget(options.threads);
+  const videoFiles: VideoFile[] = [];
+  const addRendition = (rendition: Rendition, codec: VideoCodec, transcode: TranscodePlan) => {
+    if (transcode.remux) {
+      commands.push({
+        stage: 'remux',
+        tool: 'MP4Box',
+        args: transcode.remux.args,
+        quality: rendition.quality,
+        codec,
+      });
+    }
+    const frameRate = getRenditionFrameRate(mediaInfo.video, rendition);
+    videoFiles.push({
+      path: transcode.outputPath,
+      quality: rendition.quality,
+      codec,
+      videoRange: transcode.videoRange,
+      supplementalCodec:
+        transcode.dynamicMetadata === 'DolbyVision'
+          ? getDolbyVisionCodec(rendition.width, rendition.height, frameRate)
+          : undefined,
+      frameRate,
+    });
+  };
+
+  // Grouped as the run groups them: chunked, shared-decode and single encodes
+  const units = planEncodeUnits(options, metadata, keyframeInterval);
+  const getMode = (codec: VideoCodec, rendition: Rendition) =>
+    units.find((unit) => unit.codec === codec && unit.rungs.includes(rendition))?.mode;
+
+  // --single-decode: one process for the rungs of a codec that can share it
+  for (const { codec, rungs: shared, mode } of units) {
+    if (mode !== 'shared') continue;
+    const codecHWAccel = hybrid ? hybrid[codec] : hwAccel;
+    const transcode = planSharedTranscode(
+      sourcePath,
+      tmpDir,
+      shared,
+      codec,
+      codecHWAccel,
+      mediaInfo,
+      settings,
+      keyframeInterval,
+      metadata,
+      usesHWEncoder(codec, codecHWAccel)
+        ? shared.map(() => null)
+        : getSharedEncodeThreads(shared, threadBudget)
+    );
+    for (const command of transcode.commands) {
+      commands.push({
+        stage: 'transcode',
+        tool: 'ffmpeg',
+        args: command.args,
+        qualities: shared.map((rendition) => rendition.quality),
+        codec,
+        pass: command.pass,
+        passes: transcode.commands.length,
+      });
+    }
+    shared.forEach((rendition, idx) => addRendition(rendition, codec, transcode.rungs[idx]));
+  }
+
+  for (const rendition of renditions) {
+    for (const codec of codecs) {
+      const mode = getMode(codec, rendition);
+      if (mode === 'shared') continue;
+
+      const codecHWAccel = hybrid ? hybrid[codec] : hwAccel;
+      if (mode === 'chunked') {
+        const chunked = planChunkedTranscode(
+          sourcePath,
+          tmpDir,
+          rendition,
+          codec,
+          codecHWAccel,
+          mediaInfo,
+          settings,
+          keyframeInterval,
+          threadBudget
+        );
+        const passes = Math.max(...chunked.jobs.map((job) => job.pass));
+        chunked.jobs.forEach((job, idx) => {
+          commands.push({
+            stage: 'transcode',
+            tool: 'ffmpeg',
+            args: job.args,
+            quality: rendition.quality,
+            codec,
+            pass: job.pass,
+            passes,
+            chunk: job.chunk,
+            chunks: chunked.ranges.length,
+            createDir: idx === 0 ? chunked.chunkDir : undefined,
+          });
+        });
+        commands.push({
+          stage: 'join',
+          tool: 'ffmpeg',
+          args: chunked.joinArgs,
+          quality: rendition.quality,
+          codec,
+          writeFile: { path: chunked.listPath, content: buildConcatList(chunked.chunkPaths) },
+        });
+        videoFiles.push({
+          path: chunked.outputPath,
+          quality: rendition.quality,
+          codec,
+          videoRange: chunked.videoRange,
+          frameRate: getRenditionFrameRate(mediaInfo.video, rendition),
+        });
+        continue;
+      }
+
+      const transcode = planTranscode(
+        sourcePath,
+        tmpDir,
+        rendition,
+        codec,
+        codecHWAccel,
+        mediaInfo,
+        settings,
+        keyframeInterval,
+        metadata,
+        usesHWEncoder(codec, codecHWAccel) ? null : getEncodeThreads(rendition, threadBudget)
+      );
+      for (const command of transcode.commands) {
+        commands.push({
+          stage: 'transcode',
+          tool: 'ffmpeg',
+          args: command.args,
+          quality: rendition.quality,
+          codec,
+          pass: command.pass,
+          passes: transcode.commands.length,
+        });
+      }
+      addRendition(rendition, codec, transcode);
+    }
+  }
+
+  // Packaged in ladder order, like a real run
+  const ladderIndex = (file: VideoFile) =>
+    renditions.findIndex((rendition) => rendition.quality === file.quality) * codecs.length +
+    codecs.indexOf(file.codec);
+  videoFiles.sort((a, b) => ladderIndex(a) - ladderIndex(b));
+
+  for (const file of videoFiles) {
+    commands.push({
+      stage: 'check-keyframes',
+      tool: 'ffprobe',
+      args: buildKeyframeProbeArgs(file.path),
+      quality: file.quality,
+      codec: file.codec,
+    });
+  }
+
+  commands.push({
+    stage: 'package',
+    tool: 'packager',
+    args: buildPackagerArgs(
+      buildPipelinePackagerInputs(tmpDir, mediaInfo, videoFiles),
+      keyframeInterval
+    ),
+    cwd: outputPath,
+  });
+
+  return {
+    sourcePath,
+    outputPath,
+    mode: settings.mode,
+    preset: options.preset?.name ?? null,
+    hwAccel: hwAccel.displayName,
+    codecs,
+    renditions,
+    commands,
+  };
+}
+
+export function shellQuote(arg: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(arg)) return arg;
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Render a plan as a commented shell script.
+ */
+export function formatCommandPlan(plan: CommandPlan): string {
+  const lines = [
+    `# Source: ${plan.sourcePath}`,
+    `# Output: ${plan.outputPath}`,
+    `# Mode: ${plan.mode}${plan.preset ? `, preset: ${plan.preset}` : ''}, HW: ${plan.hwAccel}`,
+    `# Renditions: ${plan.renditions.map((r) => r.quality).join(', ')}`,
+    `# Codecs: ${plan.codecs.join(', ')}`,
+    `mkdir -p ${shellQuote(path.join(plan.outputPath, 'tmp'))}`,
+  ];
+
+  for (const command of plan.commands) {
+    lines.push('');
+    if (command.stage === 'transcode') {
+      const passLabel =
+        command.passes && command.passes > 1 ? ` pass ${command.pass}/${command.passes}` : '';
+      const chunkLabel =
+        command.chunk !== undefined ? ` chunk ${command.chunk + 1}/${command.chunks}` : '';
+      const rungs = command.qualities
+        ? `${command.qualities.join(', ')} ${command.codec?.toUpperCase()} (single decode)`
+        : `${command.quality} ${command.codec?.toUpperCase()}`;
+      lines.push(`# ${rungs}${chunkLabel}${passLabel}`);
+    } else if (command.stage === 'join') {
+      lines.push(`# ${command.quality} ${command.codec?.toUpperCase()} join chunks`);
+    } else if (command.stage === 'remux') {
+      lines.push(`# ${command.quality} ${command.codec?.toUpperCase()} Dolby Vision remux`);
+    } else if (command.stage === 'check-keyframes') {
+      lines.push(`# ${command.quality} ${command.codec?.toUpperCase()} keyframes`);
+    } else {
+      lines.push(
+        `# ${command.stage}${command.track !== undefined ? ` #${command.track}` : ''}`
+      );
+    }
+
+    if (command.createDir) {
+      lines.push(`mkdir -p ${shellQuote(command.createDir)}`);
+    }
+    if (command.writeFile) {
+      const { path: filePath, content } = command.writeFile;
+      lines.push(`printf '%s' ${shellQuote(content)} > ${shellQuote(filePath)}`);
+    }
+    let invocation = [command.tool, ...command.args].map(shellQuote).join(' ');
+    if (command.pipeTo) {
+      invocation += ` | ${[command.pipeTo.tool, ...command.pipeTo.args].map(shellQuote).join(' ')}`;
+    }
+    lines.push(command.cwd ? `(cd ${shellQuote(command.cwd)} && ${invocation})` : invocation);
+  }
+
+  return lines.join('\n');
+}
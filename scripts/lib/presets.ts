@@ -0,0 +1,435 @@
+import * as os from 'os';
+import * as path from 'path';
+import type {
+  EncodingPreset,
+  Rendition,
+  RenditionQuality,
+  TonemapOverride,
+  TonemapSettings,
+} from './types.js';
+import { VALID_RENDITIONS } from './renditions.js';
+import { TONEMAP_OPERATORS } from './tonemap.js';
+
+/**
+ * Encoding preset configuration file. Looked up in order:
+ *   1. --config <file>
+ *   2. ./transcode.config.json (per project)
+ *   3. $XDG_CONFIG_HOME/transcode/config.json (default ~/.config/transcode/config.json)
+ *
+ * {
+ *   "default": "archive",             // optional, used when --preset is not given
+ *   "presets": {
+ *     "archive": {
+ *       "description": "Slow, high quality",
+ *       "passes": 2,
+ *       "vp9Deadline": "good",
+ *       "vp9CpuUsed": 1,
+ *       "nvencPreset": "p7",
+ *       "x265Preset": "slow",
+ *       "x264Preset": "slow",
+ *       "svtAv1Preset": 4,
+ *       "av1FilmGrain": 8,               // SVT-AV1 grain synthesis, 0 = off
+ *       "av1FilmGrainDenoise": false,
+ *       "segmentDuration": 4,            // Seconds, also the keyframe interval
+ *       "tonemap": {                     // HDR to SDR rungs, see tonemap.ts
+ *         "operator": "mobius",          // hable, mobius, reinhard or bt2390
+ *         "peak": 1000,                  // Source peak in nits, default from metadata
+ *         "targetNits": 100,             // SDR reference white
+ *         "desat": 0.5,
+ *         "dynamicPeak": false           // Measure the peak before encoding
+ *       },
+ *       "rungs": [
+ *         { "quality": "1080p", "width": 1920, "height": 1080, "vp9Bitrate": 5000,
+ *           "hevcBitrate": 4000, "av1Bitrate": 3200, "h264Bitrate": 6400,
+ *           "maxrate": 7500, "bufsize": 10000, "preserveHDR": true,
+ *           "tonemap": { "operator": "reinhard" },
+ *           "maxFrameRate": 30 }             // 60 fps sources encode at 30
+ *       ]
+ *     }
+ *   }
+ * }
+ *
+ * Every preset field is optional; anything not set keeps the --mode default
+ * and omitting "rungs" keeps the built-in ladder. Bitrates are in kbps; a
+ * rung without av1Bitrate/h264Bitrate gets 80%/160% of its hevcBitrate.
+ * A rung's "tonemap" overrides the preset's field by field, except
+ * dynamicPeak, which applies to the whole source.
+ */
+export const PROJECT_CONFIG_FILE = 'transcode.config.json';
+
+export interface PresetConfig {
+  path: string;
+  defaultPreset?: string;
+  presets: Record<string, EncodingPreset>;
+}
+
+export class PresetConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetConfigError';
+  }
+}
+
+const VP9_DEADLINES = ['realtime', 'good'] as const;
+const NVENC_PRESETS = ['p1', 'p2', 'p3', 'p4', 'p5', 'p6', 'p7'] as const;
+const X265_PRESETS = [
+  'ultrafast',
+  'superfast',
+  'veryfast',
+  'faster',
+  'fast',
+  'medium',
+  'slow',
+  'slower',
+  'veryslow',
+  'placebo',
+] as const;
+// x264 shares x265's preset names
+const X264_PRESETS = X265_PRESETS;
+
+const PRESET_KEYS = [
+  'description',
+  'rungs',
+  'passes',
+  'vp9Deadline',
+  'vp9CpuUsed',
+  'nvencPreset',
+  'x265Preset',
+  'x264Preset',
+  'svtAv1Preset',
+  'av1FilmGrain',
+  'av1FilmGrainDenoise',
+  'segmentDuration',
+  'tonemap',
+];
+const RUNG_KEYS = [
+  'quality',
+  'width',
+  'height',
+  'vp9Bitrate',
+  'hevcBitrate',
+  'av1Bitrate',
+  'h264Bitrate',
+  'maxrate',
+  'bufsize',
+  'preserveHDR',
+  'tonemap',
+  'maxFrameRate',
+];
+// Derived from hevcBitrate when omitted, inherited from the preset, or
+// unlimited
+const OPTIONAL_RUNG_KEYS = ['av1Bitrate', 'h264Bitrate', 'tonemap', 'maxFrameRate'];
+const TONEMAP_KEYS = ['operator', 'peak', 'targetNits', 'desat', 'dynamicPeak'];
+
+export function getUserConfigPath(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'transcode', 'config.json');
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkKeys(raw: JsonObject, allowed: string[], at: string): void {
+  for (const key of Object.keys(raw)) {
+    if (allowed.includes(key)) continue;
+    const suggestion = allowed.find((k) => k.toLowerCase() === key.toLowerCase());
+    throw new PresetConfigError(
+      `${at}: unknown field "${key}"` +
+        (suggestion ? ` (did you mean "${suggestion}"?)` : ` (expected: ${allowed.join(', ')})`)
+    );
+  }
+}
+
+function expectInteger(value: unknown, at: string, min: number, max?: number): number {
+  if (
+    typeof value !== 'number' ||
+    !Number.isInteger(value) ||
+    value < min ||
+    (max !== undefined && value > max)
+  ) {
+    const range = max !== undefined ? `between ${min} and ${max}` : `>= ${min}`;
+    throw new PresetConfigError(
+      `${at} must be an integer ${range} (got ${JSON.stringify(value)})`
+    );
+  }
+  return value;
+}
+
+function expectNumber(value: unknown, at: string, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new PresetConfigError(
+      `${at} must be a number between ${min} and ${max} (got ${JSON.stringify(value)})`
+    );
+  }
+  return value;
+}
+
+function expectEnum<T extends string>(value: unknown, valid: readonly T[], at: string): T {
+  if (typeof value !== 'string' || !valid.includes(value as T)) {
+    throw new PresetConfigError(
+      `${at} must be one of: ${valid.join(', ')} (got ${JSON.stringify(value)})`
+    );
+  }
+  return value as T;
+}
+
+function parseTonemap(raw: unknown, at: string, perRung: boolean): Partial<TonemapSettings> {
+  if (!isObject(raw)) {
+    throw new PresetConfigError(`${at} must be an object`);
+  }
+  checkKeys(
+    raw,
+    perRung ? TONEMAP_KEYS.filter((key) => key !== 'dynamicPeak') : TONEMAP_KEYS,
+    at
+  );
+
+  const tonemap: Partial<TonemapSettings> = {};
+  if (raw.operator !== undefined) {
+    tonemap.operator = expectEnum(raw.operator, TONEMAP_OPERATORS, `${at}.operator`);
+  }
+  if (raw.peak !== undefined) {
+    tonemap.peak = expectInteger(raw.peak, `${at}.peak`, 100, 10000);
+  }
+  if (raw.targetNits !== undefined) {
+    tonemap.targetNits = expectInteger(raw.targetNits, `${at}.targetNits`, 48, 400);
+  }
+  if (raw.desat !== undefined) {
+    tonemap.desat = expectNumber(raw.desat, `${at}.desat`, 0, 10);
+  }
+  if (raw.dynamicPeak !== undefined) {
+    if (typeof raw.dynamicPeak !== 'boolean') {
+      throw new PresetConfigError(`${at}.dynamicPeak must be true or false`);
+    }
+    tonemap.dynamicPeak = raw.dynamicPeak;
+  }
+  return tonemap;
+}
+
+function parseRung(raw: unknown, at: string): Rendition {
+  if (!isObject(raw)) {
+    throw new PresetConfigError(`${at} must be an object`);
+  }
+  checkKeys(raw, RUNG_KEYS, at);
+  for (const key of RUNG_KEYS) {
+    if (raw[key] === undefined && !OPTIONAL_RUNG_KEYS.includes(key)) {
+      throw new PresetConfigError(`${at}.${key} is required`);
+    }
+  }
+
+  if (typeof raw.preserveHDR !== 'boolean') {
+    throw new PresetConfigError(`${at}.preserveHDR must be true or false`);
+  }
+
+  const rung: Rendition = {
+    quality: expectEnum(raw.quality, VALID_RENDITIONS, `${at}.quality`),
+    width: expectInteger(raw.width, `${at}.width`, 2),
+    height: expectInteger(raw.height, `${at}.height`, 2),
+    vp9Bitrate: expectInteger(raw.vp9Bitrate, `${at}.vp9Bitrate`, 1),
+    hevcBitrate: expectInteger(raw.hevcBitrate, `${at}.hevcBitrate`, 1),
+    av1Bitrate:
+      raw.av1Bitrate === undefined
+        ? Math.round((raw.hevcBitrate as number) * 0.8)
+        : expectInteger(raw.av1Bitrate, `${at}.av1Bitrate`, 1),
+    h264Bitrate:
+      raw.h264Bitrate === undefined
+        ? Math.round((raw.hevcBitrate as number) * 1.6)
+        : expectInteger(raw.h264Bitrate, `${at}.h264Bitrate`, 1),
+    maxrate: expectInteger(raw.maxrate, `${at}.maxrate`, 1),
+    bufsize: expectInteger(raw.bufsize, `${at}.bufsize`, 1),
+    preserveHDR: raw.preserveHDR,
+  };
+  if (raw.tonemap !== undefined) {
+    rung.tonemap = parseTonemap(raw.tonemap, `${at}.tonemap`, true) as TonemapOverride;
+  }
+  if (raw.maxFrameRate !== undefined) {
+    rung.maxFrameRate = expectNumber(raw.maxFrameRate, `${at}.maxFrameRate`, 1, 120);
+  }
+
+  // Encoders require even dimensions for 4:2:0 output
+  if (rung.width % 2 !== 0 || rung.height % 2 !== 0) {
+    throw new PresetConfigError(
+      `${at}: width and height must be even (got ${rung.width}x${rung.height})`
+    );
+  }
+  if (rung.maxrate < rung.vp9Bitrate) {
+    throw new PresetConfigError(
+      `${at}.maxrate (${rung.maxrate}) must not be below vp9Bitrate (${rung.vp9Bitrate})`
+    );
+  }
+  return rung;
+}
+
+function parsePreset(name: string, raw: unknown, at: string): EncodingPreset {
+  if (!isObject(raw)) {
+    throw new PresetConfigError(`${at} must be an object`);
+  }
+  checkKeys(raw, PRESET_KEYS, at);
+
+  const preset: EncodingPreset = { name, settings: {} };
+  const settings: EncodingPreset['settings'] = preset.settings;
+
+  if (raw.description !== undefined) {
+    if (typeof raw.description !== 'string') {
+      throw new PresetConfigError(`${at}.description must be a string`);
+    }
+    preset.description = raw.description;
+  }
+  if (raw.passes !== undefined) {
+    settings.passes = expectInteger(raw.passes, `${at}.passes`, 1, 2) as 1 | 2;
+  }
+  if (raw.vp9Deadline !== undefined) {
+    settings.vp9Deadline = expectEnum(raw.vp9Deadline, VP9_DEADLINES, `${at}.vp9Deadline`);
+  }
+  if (raw.vp9CpuUsed !== undefined) {
+    settings.vp9CpuUsed = expectInteger(raw.vp9CpuUsed, `${at}.vp9CpuUsed`, 0, 8);
+  }
+  if (raw.nvencPreset !== undefined) {
+    settings.hevcPreset = expectEnum(raw.nvencPreset, NVENC_PRESETS, `${at}.nvencPreset`);
+  }
+  if (raw.x265Preset !== undefined) {
+    settings.x265Preset = expectEnum(raw.x265Preset, X265_PRESETS, `${at}.x265Preset`);
+  }
+  if (raw.x264Preset !== undefined) {
+    settings.x264Preset = expectEnum(raw.x264Preset, X264_PRESETS, `${at}.x264Preset`);
+  }
+  if (raw.svtAv1Preset !== undefined) {
+    settings.svtAv1Preset = expectInteger(raw.svtAv1Preset, `${at}.svtAv1Preset`, 0, 13);
+  }
+  if (raw.av1FilmGrain !== undefined) {
+    settings.av1FilmGrain = expectInteger(raw.av1FilmGrain, `${at}.av1FilmGrain`, 0, 50);
+  }
+  if (raw.av1FilmGrainDenoise !== undefined) {
+    if (typeof raw.av1FilmGrainDenoise !== 'boolean') {
+      throw new PresetConfigError(`${at}.av1FilmGrainDenoise must be true or false`);
+    }
+    settings.av1FilmGrainDenoise = raw.av1FilmGrainDenoise;
+  }
+  if (raw.segmentDuration !== undefined) {
+    settings.segmentDuration = expectNumber(raw.segmentDuration, `${at}.segmentDuration`, 1, 30);
+  }
+  if (raw.tonemap !== undefined) {
+    settings.tonemap = parseTonemap(raw.tonemap, `${at}.tonemap`, false);
+  }
+
+  if (raw.rungs !== undefined) {
+    if (!Array.isArray(raw.rungs) || raw.rungs.length === 0) {
+      throw new PresetConfigError(`${at}.rungs must be a non-empty array`);
+    }
+    const rungs = raw.rungs.map((rung, idx) => parseRung(rung, `${at}.rungs[${idx}]`));
+    const seen = new Set<RenditionQuality>();
+    for (const rung of rungs) {
+      if (seen.has(rung.quality)) {
+        throw new PresetConfigError(`${at}.rungs: duplicate quality "${rung.quality}"`);
+      }
+      seen.add(rung.quality);
+    }
+    // Highest first, like the built-in ladder
+    preset.rungs = rungs.sort((a, b) => b.height - a.height);
+  }
+
+  return preset;
+}
+
+/**
+ * Validate a parsed config file. Errors name the offending field, e.g.
+ * `presets.archive.rungs[1].height must be an integer >= 2`.
+ */
+export function validatePresetConfig(raw: unknown, configPath: string): PresetConfig {
+  if (!isObject(raw)) {
+    throw new PresetConfigError('Config file must contain a JSON object');
+  }
+  checkKeys(raw, ['default', 'presets'], 'config');
+
+  if (!isObject(raw.presets)) {
+    throw new PresetConfigError('presets must be an object of named presets');
+  }
+  const presets: Record<string, EncodingPreset> = {};
+  for (const [name, value] of Object.entries(raw.presets)) {
+    presets[name] = parsePreset(name, value, `presets.${name}`);
+  }
+
+  const config: PresetConfig = { path: configPath, presets };
+  if (raw.default !== undefined) {
+    if (typeof raw.default !== 'string' || !(raw.default in presets)) {
+      throw new PresetConfigError(
+        `default must name one of the presets (${Object.keys(presets).join(', ')})`
+      );
+    }
+    config.defaultPreset = raw.default;
+  }
+  return config;
+}
+
+/**
+ * Find and load the config file. Returns null when no config file exists;
+ * an explicit --config path that does not exist is an error.
+ */
+export async function loadPresetConfig(explicitPath?: string): Promise<PresetConfig | null> {
+  const candidates = explicitPath
+    ? [path.resolve(explicitPath)]
+    : [path.resolve(PROJECT_CONFIG_FILE), getUserConfigPath()];
+
+  for (const configPath of candidates) {
+    const file = Bun.file(configPath);
+    if (!(await file.exists())) continue;
+
+    let raw: unknown;
+    try {
+      raw = await file.json();
+    } catch (error) {
+      throw new PresetConfigError(
+        `Failed to read config file ${configPath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+    try {
+      return validatePresetConfig(raw, configPath);
+    } catch (error) {
+      if (error instanceof PresetConfigError) {
+        throw new PresetConfigError(`${configPath}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  if (explicitPath) {
+    throw new PresetConfigError(`Config file not found: ${explicitPath}`);
+  }
+  return null;
+}
+
+/**
+ * Pick a preset by name, falling back to the config's default preset.
+ * Returns undefined when neither is set (built-in settings apply).
+ */
+export function selectPreset(
+  config: PresetConfig | null,
+  name?: string
+): EncodingPreset | undefined {
+  if (!name) {
+    return config?.defaultPreset ? config.presets[config.defaultPreset] : undefined;
+  }
+  if (!config) {
+    throw new PresetConfigError(
+      `Preset "${name}" requested but no config file found ` +
+        `(looked for ./${PROJECT_CONFIG_FILE} and ${getUserConfigPath()})`
+    );
+  }
+  const preset = config.presets[name];
+  if (!preset) {
+    throw new PresetConfigError(
+      `Unknown preset "${name}" in ${config.path} ` +
+        `(available: ${Object.keys(config.presets).join(', ') || 'none'})`
+    );
+  }
+  return preset;
+}
+
+export async function resolvePreset(
+  name?: string,
+  configPath?: string
+): Promise<EncodingPreset | undefined> {
+  return selectPreset(await loadPresetConfig(configPath), name);
+}
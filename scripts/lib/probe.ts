@@ -1,8 +1,11 @@
 import { $ } from 'bun';
 import * as path from 'path';
 import type {
+  ContentLightLevel,
   FFprobeOutput,
+  FFprobeSideData,
   FFprobeStream,
+  MasteringDisplay,
   MediaInfo,
   VideoInfo,
   AudioStream,
@@ -10,7 +13,12 @@ import type {
   HDRType,
   AudioChannelLayout,
   SubtitleType,
+  VideoRange,
 } from './types.js';
+import { analyzeInterlacing, parseFieldOrder } from './deinterlace.js';
+import { isVariableFrameRate, scanFrameTimestamps } from './frame-rate.js';
+import { detectCrop } from './crop.js';
+import { CancelledError } from './run-control.js';
 
 export class ProbeError extends Error {
   constructor(message: string) {
@@ -19,7 +27,16 @@ export class ProbeError extends Error {
   }
 }
 
-export async function probeMedia(filePath: string): Promise<MediaInfo> {
+export interface ProbeOptions {
+  idet?: boolean; // Run the idet pass instead of trusting field_order alone
+  vfrScan?: boolean; // Scan frame timestamps instead of trusting the header rates
+  crop?: boolean; // Detect black bars with cropdetect
+}
+
+export async function probeMedia(
+  filePath: string,
+  options: ProbeOptions = {}
+): Promise<MediaInfo> {
   // Check if file exists
   const file = Bun.file(filePath);
   if (!(await file.exists())) {
@@ -44,15 +61,69 @@ export async function probeMedia(filePath: string): Promise<MediaInfo> {
     throw new ProbeError('No video stream found in file');
   }
 
-  // Check minimum resolution
-  if (!videoStream.height || videoStream.height < 720) {
-    throw new ProbeError(
-      `Video resolution too low: ${videoStream.height}p. Minimum 720p required.`
-    );
+  if (!videoStream.width || !videoStream.height) {
+    throw new ProbeError('Could not determine video resolution');
   }
 
   // Parse video info
-  const video = parseVideoInfo(videoStream);
+  let video = parseVideoInfo(videoStream);
+  const duration = parseFloat(output.format.duration || '0');
+  const warnings = getSourceWarnings(video);
+
+  if (options.idet) {
+    try {
+      const scan = await analyzeInterlacing(filePath, video, duration);
+      if (scan) {
+        video = {
+          ...video,
+          scanType: scan.scanType,
+          fieldOrder: scan.fieldOrder,
+          variableFrameRate: isVariableFrameRate(
+            videoStream.r_frame_rate,
+            videoStream.avg_frame_rate,
+            scan.scanType
+          ),
+        };
+      }
+    } catch (error) {
+      if (error instanceof CancelledError) throw error;
+      warnings.push(
+        `Interlace analysis failed (${error instanceof Error ? error.message : 'Unknown error'}); ` +
+          `using the stream's field order`
+      );
+    }
+  }
+
+  // Deinterlaced sources already get a constant rate
+  if (options.vfrScan && video.scanType === 'progressive') {
+    try {
+      const irregular = await scanFrameTimestamps(filePath);
+      if (irregular !== null) {
+        video = { ...video, variableFrameRate: irregular };
+      }
+    } catch (error) {
+      if (error instanceof CancelledError) throw error;
+      warnings.push(
+        `${error instanceof Error ? error.message : 'Timestamp scan failed'}; ` +
+          `using the stream's frame rates`
+      );
+    }
+  }
+
+  if (options.crop) {
+    try {
+      const crop = await detectCrop(filePath, video, duration);
+      if (crop) {
+        video = { ...video, crop };
+      }
+    } catch (error) {
+      if (error instanceof CancelledError) throw error;
+      warnings.push(
+        `Crop detection failed (${error instanceof Error ? error.message : 'Unknown error'}); ` +
+          `encoding the full frame`
+      );
+    }
+  }
 
   // Parse audio streams
   const audioStreams = output.streams
@@ -67,34 +138,250 @@ export async function probeMedia(filePath: string): Promise<MediaInfo> {
   return {
     filePath,
     fileName: path.basename(filePath),
-    duration: parseFloat(output.format.duration || '0'),
+    duration,
     size: parseInt(output.format.size || '0', 10),
     video,
     audioStreams,
     subtitleStreams,
+    warnings,
   };
 }
 
+// Short edge of the smallest rendition typical streaming targets expect
+const TYPICAL_MIN_SHORT_EDGE = 720;
+
+/**
+ * Notes about sources below what streaming targets typically expect. These
+ * are still transcoded, but the ladder stops at the source resolution.
+ */
+function getSourceWarnings(video: VideoInfo): string[] {
+  const shortEdge = Math.min(video.displayWidth, video.displayHeight);
+  if (shortEdge >= TYPICAL_MIN_SHORT_EDGE) return [];
+  return [
+    `Source is ${shortEdge}p, below the typical ${TYPICAL_MIN_SHORT_EDGE}p minimum for streaming. ` +
+      `Renditions stop at the source resolution and are never upscaled.`,
+  ];
+}
+
+// Transfer characteristic ffprobe reports for each HDR video range
+const RANGE_TRANSFER: Record<Exclude<VideoRange, 'SDR'>, string> = {
+  PQ: 'smpte2084',
+  HLG: 'arib-std-b67',
+};
+
+/**
+ * Probe an encoded HDR rendition and check it is still HDR: 10-bit pixels,
+ * BT.2020 primaries and the expected transfer. Returns the problems found,
+ * empty when the output is fine.
+ */
+export async function verifyHDROutput(
+  filePath: string,
+  videoRange: Exclude<VideoRange, 'SDR'>
+): Promise<string[]> {
+  let stream: FFprobeStream | undefined;
+  try {
+    const result =
+      await $`ffprobe -v quiet -print_format json -show_streams -select_streams v:0 ${filePath}`.text();
+    stream = (JSON.parse(result) as FFprobeOutput).streams[0];
+  } catch (error) {
+    throw new ProbeError(
+      `Failed to probe output: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+  if (!stream) {
+    return ['no video stream'];
+  }
+
+  const problems: string[] = [];
+  if (!stream.pix_fmt?.includes('10')) {
+    problems.push(`pixel format is ${stream.pix_fmt ?? 'unknown'}, expected 10-bit`);
+  }
+  if (stream.color_primaries !== 'bt2020') {
+    problems.push(`color primaries are ${stream.color_primaries ?? 'untagged'}, expected bt2020`);
+  }
+  const transfer = RANGE_TRANSFER[videoRange];
+  if (stream.color_transfer !== transfer) {
+    problems.push(`transfer is ${stream.color_transfer ?? 'untagged'}, expected ${transfer}`);
+  }
+  return problems;
+}
+
+/**
+ * Duration of a written output in seconds, or null when ffprobe cannot read
+ * one (metadata files such as HDR10+ JSON).
+ */
+export async function probeOutputDuration(filePath: string): Promise<number | null> {
+  try {
+    const result = await $`ffprobe -v quiet -print_format json -show_format ${filePath}`.text();
+    const duration = parseFloat((JSON.parse(result) as FFprobeOutput).format?.duration ?? '');
+    return isNaN(duration) ? null : duration;
+  } catch {
+    return null;
+  }
+}
+
 function parseVideoInfo(stream: FFprobeStream): VideoInfo {
   const frameRateParts = (stream.avg_frame_rate || '24/1').split('/');
   const frameRate =
     parseInt(frameRateParts[0], 10) / parseInt(frameRateParts[1] || '1', 10);
 
+  const width = stream.width || 0;
+  const height = stream.height || 0;
+  const sampleAspectRatio = parseSampleAspectRatio(stream, width, height);
+  const rotation = parseRotation(stream);
+  const scan = parseFieldOrder(stream.field_order);
+
+  // Players stretch by the SAR first, then rotate
+  const stretchedWidth = Math.round((width * sampleAspectRatio) / 2) * 2;
+  const quarterTurn = rotation === 90 || rotation === 270;
+
   return {
-    width: stream.width || 0,
-    height: stream.height || 0,
+    width,
+    height,
+    displayWidth: quarterTurn ? height : stretchedWidth,
+    displayHeight: quarterTurn ? stretchedWidth : height,
+    sampleAspectRatio,
+    rotation,
     codec: stream.codec_name,
     profile: stream.profile || 'unknown',
     pixelFormat: stream.pix_fmt || 'unknown',
     frameRate: isNaN(frameRate) ? 24 : frameRate,
+    variableFrameRate: isVariableFrameRate(
+      stream.r_frame_rate,
+      stream.avg_frame_rate,
+      scan.scanType
+    ),
+    ...scan,
     bitrate: parseInt(stream.bit_rate || '0', 10),
     hdrType: detectHDRType(stream),
     colorPrimaries: stream.color_primaries,
     colorTransfer: stream.color_transfer,
     colorSpace: stream.color_space,
+    masteringDisplay: parseMasteringDisplay(stream),
+    contentLightLevel: parseContentLightLevel(stream),
+    dolbyVisionProfile:
+      parseSideDataNumber(findSideData(stream, 'DOVI configuration record')?.dv_profile) ??
+      undefined,
   };
 }
 
+// ffprobe prints side data values as numbers or "num/den" rationals
+function parseSideDataNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+  const [num, den = '1'] = value.split('/');
+  const result = parseFloat(num) / parseFloat(den);
+  return isFinite(result) ? result : null;
+}
+
+function findSideData(stream: FFprobeStream, type: string): FFprobeSideData | undefined {
+  return stream.side_data_list?.find((sd) => sd.side_data_type === type);
+}
+
+function parseMasteringDisplay(stream: FFprobeStream): MasteringDisplay | undefined {
+  const sd = findSideData(stream, 'Mastering display metadata');
+  if (!sd) return undefined;
+
+  const values = [
+    'red_x', 'red_y', 'green_x', 'green_y', 'blue_x', 'blue_y',
+    'white_point_x', 'white_point_y', 'max_luminance', 'min_luminance',
+  ].map((key) => parseSideDataNumber(sd[key]));
+  // Side data without primaries (luminance only) is not usable for HDR10
+  if (values.some((v) => v === null)) return undefined;
+
+  const [rx, ry, gx, gy, bx, by, wx, wy, maxLum, minLum] = values as number[];
+  return {
+    red: [rx, ry],
+    green: [gx, gy],
+    blue: [bx, by],
+    whitePoint: [wx, wy],
+    maxLuminance: maxLum,
+    minLuminance: minLum,
+  };
+}
+
+function parseContentLightLevel(stream: FFprobeStream): ContentLightLevel | undefined {
+  const sd = findSideData(stream, 'Content light level metadata');
+  if (!sd) return undefined;
+
+  const maxCll = parseSideDataNumber(sd.max_content);
+  const maxFall = parseSideDataNumber(sd.max_average);
+  if (maxCll === null || maxFall === null) return undefined;
+  return { maxCll, maxFall };
+}
+
+function parseRatio(value: string | undefined): number | null {
+  const match = value?.match(/^(\d+):(\d+)$/);
+  if (!match) return null;
+  const num = parseInt(match[1], 10);
+  const den = parseInt(match[2], 10);
+  return num > 0 && den > 0 ? num / den : null;
+}
+
+/**
+ * Pixel aspect ratio of the coded frame. Falls back to deriving it from the
+ * display aspect ratio when only that is tagged; "0:1" means unknown.
+ */
+function parseSampleAspectRatio(
+  stream: FFprobeStream,
+  width: number,
+  height: number
+): number {
+  const sar = parseRatio(stream.sample_aspect_ratio);
+  if (sar !== null) return sar;
+
+  const dar = parseRatio(stream.display_aspect_ratio);
+  if (dar !== null && width > 0 && height > 0) {
+    return dar / (width / height);
+  }
+  return 1;
+}
+
+/**
+ * Clockwise rotation a player applies, from the display matrix side data
+ * (counter-clockwise degrees) or the legacy "rotate" tag (clockwise).
+ */
+function parseRotation(stream: FFprobeStream): number {
+  const displayMatrix = findSideData(stream, 'Display Matrix');
+
+  let degrees = 0;
+  if (typeof displayMatrix?.rotation === 'number') {
+    degrees = -displayMatrix.rotation;
+  } else if (stream.tags?.rotate) {
+    degrees = parseInt(stream.tags.rotate, 10) || 0;
+  }
+
+  // Normalize to a quarter turn in [0, 360)
+  return (((Math.round(degrees / 90) * 90) % 360) + 360) % 360;
+}
+
+/**
+ * Coded size plus whatever a player does to it, e.g.
+ * "1440x1080 (SAR 4:3, displays 1920x1080)".
+ */
+export function formatVideoGeometry(video: VideoInfo): string {
+  const coded = `${video.width}x${video.height}`;
+  const notes: string[] = [];
+  if (video.sampleAspectRatio !== 1) {
+    notes.push(`SAR ${formatAspectRatio(video.sampleAspectRatio)}`);
+  }
+  if (video.rotation !== 0) {
+    notes.push(`rotated ${video.rotation}°`);
+  }
+  if (notes.length === 0) return coded;
+  return `${coded} (${notes.join(', ')}, displays ${video.displayWidth}x${video.displayHeight})`;
+}
+
+function formatAspectRatio(ratio: number): string {
+  for (let den = 1; den <= 100; den++) {
+    const num = ratio * den;
+    if (Math.abs(num - Math.round(num)) < 0.001) {
+      return `${Math.round(num)}:${den}`;
+    }
+  }
+  return ratio.toFixed(3);
+}
+
 function detectHDRType(stream: FFprobeStream): HDRType {
   // Check for Dolby Vision first (via side data)
   if (stream.side_data_list) {
@@ -126,6 +413,12 @@ function detectHDRType(stream: FFprobeStream): HDRType {
     return 'HDR10';
   }
 
+  // HLG (broadcast HDR) carries no static metadata; the transfer alone
+  // identifies it
+  if (stream.color_transfer === 'arib-std-b67') {
+    return 'HLG';
+  }
+
   return 'SDR';
 }
 
@@ -1,4 +1,16 @@
 import type { Rendition, RenditionQuality, VideoInfo } from './types.js';
+import { getCroppedDisplaySize } from './crop.js';
+
+export const VALID_RENDITIONS: RenditionQuality[] = [
+  '2160p',
+  '1440p',
+  '1080p',
+  '720p',
+  '576p',
+  '480p',
+  '360p',
+  '240p',
+];
 
 // Rendition ladder based on common streaming standards
 const RENDITION_LADDER: Rendition[] = [
@@ -8,6 +20,8 @@ const RENDITION_LADDER: Rendition[] = [
     height: 2160,
     vp9Bitrate: 13500, // 13.5 Mbps
     hevcBitrate: 11000, // 11 Mbps
+    av1Bitrate: 9000, // 9 Mbps
+    h264Bitrate: 18000, // 18 Mbps
     maxrate: 20000,
     bufsize: 27000,
     preserveHDR: true,
@@ -18,6 +32,8 @@ const RENDITION_LADDER: Rendition[] = [
     height: 1440,
     vp9Bitrate: 9000, // 9 Mbps
     hevcBitrate: 7000, // 7 Mbps
+    av1Bitrate: 5800, // 5.8 Mbps
+    h264Bitrate: 11000, // 11 Mbps
     maxrate: 13500,
     bufsize: 18000,
     preserveHDR: true,
@@ -28,6 +44,8 @@ const RENDITION_LADDER: Rendition[] = [
     height: 1080,
     vp9Bitrate: 6000, // 6 Mbps
     hevcBitrate: 5000, // 5 Mbps
+    av1Bitrate: 4000, // 4 Mbps
+    h264Bitrate: 7800, // 7.8 Mbps
     maxrate: 9000,
     bufsize: 12000,
     preserveHDR: true,
@@ -38,30 +56,169 @@ const RENDITION_LADDER: Rendition[] = [
     height: 720,
     vp9Bitrate: 3250, // 3.25 Mbps
     hevcBitrate: 2500, // 2.5 Mbps
+    av1Bitrate: 2000, // 2 Mbps
+    h264Bitrate: 4000, // 4 Mbps
     maxrate: 5000,
     bufsize: 6500,
     preserveHDR: false, // Tone-map to SDR
   },
+  {
+    quality: '576p',
+    width: 1024,
+    height: 576,
+    vp9Bitrate: 2000, // 2 Mbps
+    hevcBitrate: 1500, // 1.5 Mbps
+    av1Bitrate: 1200, // 1.2 Mbps
+    h264Bitrate: 2400, // 2.4 Mbps
+    maxrate: 3000,
+    bufsize: 4000,
+    preserveHDR: false, // Tone-map to SDR
+    maxFrameRate: 30, // 50/60 fps sources are halved
+  },
   {
     quality: '480p',
     width: 854,
     height: 480,
     vp9Bitrate: 1500, // 1.5 Mbps
     hevcBitrate: 1150, // 1.15 Mbps
+    av1Bitrate: 900, // 0.9 Mbps
+    h264Bitrate: 1800, // 1.8 Mbps
     maxrate: 2250,
     bufsize: 3000,
     preserveHDR: false, // Tone-map to SDR
+    maxFrameRate: 30, // 50/60 fps sources are halved
+  },
+  {
+    quality: '360p',
+    width: 640,
+    height: 360,
+    vp9Bitrate: 800, // 0.8 Mbps
+    hevcBitrate: 600, // 0.6 Mbps
+    av1Bitrate: 500, // 0.5 Mbps
+    h264Bitrate: 1000, // 1 Mbps
+    maxrate: 1200,
+    bufsize: 1600,
+    preserveHDR: false, // Tone-map to SDR
+    maxFrameRate: 30, // 50/60 fps sources are halved
+  },
+  {
+    quality: '240p',
+    width: 426,
+    height: 240,
+    vp9Bitrate: 400, // 0.4 Mbps
+    hevcBitrate: 300, // 0.3 Mbps
+    av1Bitrate: 250, // 0.25 Mbps
+    h264Bitrate: 500, // 0.5 Mbps
+    maxrate: 600,
+    bufsize: 800,
+    preserveHDR: false, // Tone-map to SDR
+    maxFrameRate: 30, // 50/60 fps sources are halved
   },
 ];
 
-export function buildRenditionLadder(sourceVideo: VideoInfo): Rendition[] {
-  // Only include renditions at or below source quality
-  // Check both width and height to handle ultrawide/non-standard aspect ratios
-  return RENDITION_LADDER.filter(
-    (rendition) =>
-      rendition.height <= sourceVideo.height ||
-      rendition.width <= sourceVideo.width
-  );
+// HD sources keep the 2160p-480p ladder; the SD-only rungs are added for
+// sources below 720p so archive masters still get a usable ladder
+const HD_SOURCE_MIN_SHORT_EDGE = 720;
+const SD_ONLY_RUNGS: RenditionQuality[] = ['576p', '360p', '240p'];
+
+function getDefaultLadder(sourceVideo: VideoInfo): Rendition[] {
+  // Rungs are chosen by the frame, black bars included (see fitRendition)
+  const shortEdge = Math.min(sourceVideo.displayWidth, sourceVideo.displayHeight);
+  if (shortEdge < HD_SOURCE_MIN_SHORT_EDGE) return RENDITION_LADDER;
+  return RENDITION_LADDER.filter((r) => !SD_ONLY_RUNGS.includes(r.quality));
+}
+
+// Allow a rung to land slightly above the source (e.g. 1904x1072 counts as
+// 1080p); the output is still never upscaled
+const UPSCALE_TOLERANCE = 1.05;
+
+// Above this width:height ratio the source is labelled ultrawide
+const ULTRAWIDE_RATIO = 2;
+
+export type Orientation = 'landscape' | 'portrait' | 'square' | 'ultrawide';
+
+export function getOrientation(width: number, height: number): Orientation {
+  if (width === height) return 'square';
+  if (height > width) return 'portrait';
+  return width / height > ULTRAWIDE_RATIO ? 'ultrawide' : 'landscape';
+}
+
+function toEven(value: number): number {
+  return Math.max(2, Math.round(value / 2) * 2);
+}
+
+// A rung's long edge goes up to twice the 16:9 box (32:9 at the rung's
+// short edge); wider panoramas are scaled down to fit
+const MAX_LONG_EDGE_FACTOR = 2;
+
+/**
+ * Scale the source into a rung. Rungs are chosen by the short edge of the
+ * source's frame, whatever its orientation: a 1080x1920 phone video and a
+ * 2560x1080 ultrawide one are both "1080p" at their own aspect ratio. The
+ * picture inside any cropped black bars gets the frame's scale, so a scope
+ * film cropped to 1920x800 stays 1080p. The long edge is only clamped.
+ * Returns null when the rung would need upscaling.
+ */
+function fitRendition(
+  rung: Rendition,
+  frame: { width: number; height: number },
+  picture: { width: number; height: number },
+  tolerance = UPSCALE_TOLERANCE
+): Rendition | null {
+  const rungShortEdge = Math.min(rung.width, rung.height);
+  const rungLongEdge = Math.max(rung.width, rung.height);
+
+  const scale = rungShortEdge / Math.min(frame.width, frame.height);
+  if (scale > tolerance) return null;
+
+  const longEdgeCap =
+    (rungLongEdge * MAX_LONG_EDGE_FACTOR) / Math.max(picture.width, picture.height);
+  const fit = Math.min(scale, longEdgeCap, 1);
+  const width = toEven(picture.width * fit);
+  const height = toEven(picture.height * fit);
+
+  // Letterboxed or ultrawide content has fewer or more pixels than the 16:9
+  // box the rung was tuned for; bits needed grow sub-linearly with pixel count
+  const pixelRatio = (width * height) / (rung.width * rung.height);
+  const factor = Math.max(Math.pow(pixelRatio, 0.75), 0.5);
+  if (factor === 1) return { ...rung, width, height };
+
+  const bitrate = (kbps: number) => Math.round((kbps * factor) / 50) * 50;
+
+  return {
+    ...rung,
+    width,
+    height,
+    vp9Bitrate: bitrate(rung.vp9Bitrate),
+    hevcBitrate: bitrate(rung.hevcBitrate),
+    av1Bitrate: bitrate(rung.av1Bitrate),
+    h264Bitrate: bitrate(rung.h264Bitrate),
+    maxrate: bitrate(rung.maxrate),
+    bufsize: bitrate(rung.bufsize),
+  };
+}
+
+/**
+ * Build the ladder for a source: every rung at or below the short edge of
+ * its display geometry, with output dimensions that keep the aspect ratio
+ * and orientation of the picture (inside any cropped black bars).
+ */
+export function buildRenditionLadder(
+  sourceVideo: VideoInfo,
+  ladder: Rendition[] = getDefaultLadder(sourceVideo)
+): Rendition[] {
+  const frame = { width: sourceVideo.displayWidth, height: sourceVideo.displayHeight };
+  const picture = getCroppedDisplaySize(sourceVideo);
+  const fitted = ladder.flatMap((rung) => {
+    const rendition = fitRendition(rung, frame, picture);
+    return rendition ? [rendition] : [];
+  });
+
+  // Sources smaller than the lowest rung are encoded once at their own size
+  if (fitted.length === 0 && ladder.length > 0) {
+    return [fitRendition(ladder[ladder.length - 1], frame, picture, Infinity)!];
+  }
+  return fitted;
 }
 
 export function getAllRenditions(): Rendition[] {
@@ -87,7 +244,15 @@ export function getRenditionLabel(rendition: Rendition): string {
     '1440p': '2K QHD',
     '1080p': 'Full HD',
     '720p': 'HD',
+    '576p': 'SD PAL',
     '480p': 'SD',
+    '360p': 'Low',
+    '240p': 'Mobile',
   };
-  return `${rendition.quality} (${labels[rendition.quality]})`;
+  const orientation = getOrientation(rendition.width, rendition.height);
+  const detail =
+    orientation === 'landscape'
+      ? labels[rendition.quality]
+      : `${labels[rendition.quality]}, ${orientation} ${rendition.width}x${rendition.height}`;
+  return `${rendition.quality} (${detail})`;
 }
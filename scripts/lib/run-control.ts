@@ -0,0 +1,159 @@
+import * as fs from 'fs/promises';
+import type { Subprocess } from 'bun';
+import type { RenditionJob } from './types.js';
+
+/**
+ * Pause, skip and cancel for a running pipeline.
+ *
+ * Every process the pipeline spawns, and those of the probing and analysis
+ * before it, is registered here along with the jobs it works for and the
+ * files it writes. Pausing stops the processes with SIGSTOP and continues
+ * them with SIGCONT. Skipping a job kills its
+ * processes (with --single-decode, the whole process and so every rung in
+ * it); cancelling kills everything. A killed process's partial outputs are
+ * removed, and whoever waited on it gets a CancelledError.
+ *
+ * A process started after a skip or cancel is killed right away, so a
+ * job's next pass never runs; one started while paused is stopped.
+ */
+
+export class CancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+export interface ProcessOwner {
+  jobs?: RenditionJob[]; // Rendition/codec pairs the process encodes
+  outputs?: string[]; // Files it writes, removed when it is killed
+}
+
+export interface TrackedProcess {
+  proc: Subprocess;
+  jobs: RenditionJob[];
+  outputs: string[];
+  interrupted: 'skipped' | 'cancelled' | null;
+}
+
+const processes = new Set<TrackedProcess>();
+const skippedJobs: RenditionJob[] = [];
+let paused = false;
+let cancelled = false;
+
+function isSameJob(a: RenditionJob, b: RenditionJob): boolean {
+  return a.codec === b.codec && a.quality === b.quality;
+}
+
+function interrupt(tracked: TrackedProcess, reason: 'skipped' | 'cancelled'): void {
+  tracked.interrupted ??= reason;
+  // SIGKILL also ends a stopped process
+  tracked.proc.kill('SIGKILL');
+}
+
+// Start of a run, before the source is probed: nothing paused, skipped or
+// cancelled
+export function resetRunControl(): void {
+  processes.clear();
+  skippedJobs.length = 0;
+  paused = false;
+  cancelled = false;
+}
+
+export function trackProcess(proc: Subprocess, owner: ProcessOwner = {}): TrackedProcess {
+  const tracked: TrackedProcess = {
+    proc,
+    jobs: owner.jobs ?? [],
+    outputs: owner.outputs ?? [],
+    interrupted: null,
+  };
+  processes.add(tracked);
+
+  if (cancelled) {
+    interrupt(tracked, 'cancelled');
+  } else if (tracked.jobs.some(isSkipped)) {
+    interrupt(tracked, 'skipped');
+  } else if (paused) {
+    proc.kill('SIGSTOP');
+  }
+  return tracked;
+}
+
+/**
+ * Stop tracking a process once it has exited. Throws a CancelledError,
+ * after removing its partial outputs, when it was killed by a skip or
+ * cancel.
+ */
+export async function releaseProcess(tracked: TrackedProcess): Promise<void> {
+  processes.delete(tracked);
+  if (!tracked.interrupted) return;
+
+  await Promise.all(tracked.outputs.map((output) => fs.rm(output, { force: true })));
+  throw new CancelledError(tracked.interrupted === 'skipped' ? 'Skipped' : 'Cancelled');
+}
+
+// Whether any tracked process is still running, in the pipeline or before it
+export function hasRunningProcesses(): boolean {
+  return processes.size > 0;
+}
+
+export function isPaused(): boolean {
+  return paused;
+}
+
+export function isCancelled(): boolean {
+  return cancelled;
+}
+
+export function isSkipped(job: RenditionJob): boolean {
+  return skippedJobs.some((skipped) => isSameJob(skipped, job));
+}
+
+export function pauseRun(): void {
+  if (paused || cancelled) return;
+  paused = true;
+  for (const tracked of processes) {
+    tracked.proc.kill('SIGSTOP');
+  }
+}
+
+export function resumeRun(): void {
+  if (!paused) return;
+  paused = false;
+  for (const tracked of processes) {
+    tracked.proc.kill('SIGCONT');
+  }
+}
+
+/**
+ * Skip a job. Returns every job skipped with it, which is more than one
+ * when they share a process.
+ */
+export function skipJob(job: RenditionJob): RenditionJob[] {
+  const owners = [...processes].filter((tracked) =>
+    tracked.jobs.some((other) => isSameJob(other, job))
+  );
+  const jobs = [job, ...owners.flatMap((tracked) => tracked.jobs)].filter(
+    (other, idx, all) => all.findIndex((first) => isSameJob(first, other)) === idx
+  );
+  for (const other of jobs) {
+    if (!isSkipped(other)) skippedJobs.push(other);
+  }
+  for (const tracked of owners) {
+    interrupt(tracked, 'skipped');
+  }
+  return jobs;
+}
+
+export function cancelRun(): void {
+  cancelled = true;
+  paused = false;
+  for (const tracked of processes) {
+    interrupt(tracked, 'cancelled');
+  }
+}
+
+// Checkpoint between pipeline stages
+export function throwIfCancelled(): void {
+  if (cancelled) throw new CancelledError('Cancelled');
+}
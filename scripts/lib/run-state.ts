@@ -0,0 +1,95 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import type { RenditionJob } from './types.js';
+import type { PipelineOptions } from './pipeline.js';
+
+/**
+ * Resumable run state (--resume).
+ *
+ * While the pipeline runs it keeps a state file in the output directory:
+ * the resolved options (probe results, ladder, HW selection and flags) and
+ * the renditions skipped by the user. A cancelled or crashed run leaves the
+ * file behind; --resume reads it and runs again with the same options,
+ * keeping skipped renditions skipped. Outputs the run finished are reused
+ * only when the output journal vouches for them (see journal.ts). A run
+ * that packaged removes the file.
+ */
+
+const RUN_STATE_FILE = '.transcode-run.json';
+
+export class RunStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RunStateError';
+  }
+}
+
+export interface RunState {
+  status: 'running' | 'cancelled';
+  options: PipelineOptions;
+  skipped: RenditionJob[];
+}
+
+export interface RunStateWriter {
+  state: RunState;
+  update: (change: (state: RunState) => void) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export function getRunStatePath(outputDir: string): string {
+  return path.join(outputDir, RUN_STATE_FILE);
+}
+
+export async function loadRunState(outputDir: string): Promise<RunState> {
+  const statePath = getRunStatePath(outputDir);
+  let state: RunState;
+  try {
+    state = (await Bun.file(statePath).json()) as RunState;
+  } catch {
+    throw new RunStateError(`No run to resume in ${outputDir} (${RUN_STATE_FILE} not found)`);
+  }
+  if (!state.options?.sourcePath) {
+    throw new RunStateError(`${statePath} is not a valid run state`);
+  }
+  return {
+    status: state.status,
+    options: state.options,
+    skipped: state.skipped ?? [],
+  };
+}
+
+async function saveRunState(outputDir: string, state: RunState): Promise<void> {
+  // Write to a temp file and rename so a crash never leaves a torn state file
+  const statePath = getRunStatePath(outputDir);
+  const tmpPath = `${statePath}.tmp`;
+  await Bun.write(tmpPath, `${JSON.stringify(state, null, 2)}\n`);
+  await fs.rename(tmpPath, statePath);
+}
+
+/**
+ * Write the initial state and keep the file current. Jobs finish
+ * concurrently, so updates are written one after another; a failed write
+ * is reported to its caller and does not hold up the next one.
+ */
+export async function createRunStateWriter(
+  outputDir: string,
+  initial: RunState
+): Promise<RunStateWriter> {
+  await saveRunState(outputDir, initial);
+
+  let writing: Promise<void> = Promise.resolve();
+  const enqueue = (write: () => Promise<void>) => {
+    const next = writing.catch(() => {}).then(write);
+    writing = next;
+    return next;
+  };
+  const writer: RunStateWriter = {
+    state: initial,
+    update: (change) => {
+      change(writer.state);
+      return enqueue(() => saveRunState(outputDir, writer.state));
+    },
+    clear: () => enqueue(() => fs.rm(getRunStatePath(outputDir), { force: true })),
+  };
+  return writer;
+}
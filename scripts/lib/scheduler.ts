@@ -0,0 +1,160 @@
+import * as os from 'os';
+import type { HWAccelInfo, HWAccelMethod, Rendition } from './types.js';
+
+/**
+ * Job scheduling.
+ *
+ * Every rendition/codec pair is an independent ffmpeg run, and so are the
+ * audio and subtitle extractions, so they can run side by side: HEVC on
+ * NVENC while VP9 encodes on the CPU, or several software rungs sharing the
+ * cores. Two limits apply. Each hardware device runs a few sessions at most
+ * (consumer NVENC chips refuse more), and every task takes threads from a
+ * global CPU budget, which software encoders are held to with -threads.
+ *
+ * Pending tasks start in priority order (longest encode first, which keeps
+ * the tail short). A task that doesn't fit holds back the lower priority
+ * tasks of its device, so small rungs cannot starve a large one; tasks for
+ * other devices still start.
+ */
+
+export type SchedulerDevice = Exclude<HWAccelMethod, 'software'> | 'cpu';
+
+// Concurrent sessions per device; the CPU is bounded by the thread budget
+const DEVICE_CONCURRENCY: Record<SchedulerDevice, number> = {
+  nvidia: 3,
+  qsv: 2,
+  amf: 2,
+  vaapi: 2,
+  videotoolbox: 2,
+  cpu: Infinity,
+};
+
+// Software encodes get half the budget per 1080p worth of pixels
+const REFERENCE_PIXELS = 1920 * 1080 * 2;
+
+export interface ScheduledTask<T> {
+  label: string; // e.g. "1080p HEVC"
+  device: SchedulerDevice;
+  priority: number; // Higher starts first
+  threads: number; // Taken from the CPU budget while running
+  sessions?: number; // Encoder sessions held on the device (default 1)
+  run: () => Promise<T>;
+}
+
+export interface TaskResult<T> {
+  task: ScheduledTask<T>;
+  value?: T;
+  error?: string;
+}
+
+/**
+ * CPU threads available to all running tasks together: the requested
+ * budget (--threads), or every core.
+ */
+export function getThreadBudget(requested?: number): number {
+  return Math.max(requested ?? os.availableParallelism(), 1);
+}
+
+export function getEncodeDevice(hwAccel: HWAccelInfo, usesHWEncoder: boolean): SchedulerDevice {
+  return usesHWEncoder && hwAccel.method !== 'software' ? hwAccel.method : 'cpu';
+}
+
+/**
+ * Threads for a software encode of the rendition, in proportion to its
+ * pixel count (1080p gets half the budget, 2160p all of it).
+ */
+export function getEncodeThreads(rendition: Rendition, budget: number): number {
+  const share = (rendition.width * rendition.height) / REFERENCE_PIXELS;
+  return Math.min(Math.max(Math.round(budget * share), 1), budget);
+}
+
+/**
+ * Threads for software encodes sharing one process (--single-decode),
+ * scaled down together when their shares add up to more than the budget.
+ */
+export function getSharedEncodeThreads(renditions: Rendition[], budget: number): number[] {
+  const shares = renditions.map((rendition) => getEncodeThreads(rendition, budget));
+  const scale = Math.min(budget / shares.reduce((sum, count) => sum + count, 0), 1);
+  return shares.map((count) => Math.max(Math.floor(count * scale), 1));
+}
+
+/**
+ * Run every task within the device and thread limits. Resolves once all of
+ * them have settled, with the results in task order; a failed task does not
+ * stop the others.
+ */
+export function runScheduled<T>(
+  tasks: ScheduledTask<T>[],
+  threadBudget: number
+): Promise<TaskResult<T>[]> {
+  return new Promise((resolve) => {
+    const results: TaskResult<T>[] = new Array(tasks.length);
+    // Stable: equal priorities keep their order
+    const pending = tasks
+      .map((task, index) => ({ task, index }))
+      .sort((a, b) => b.task.priority - a.task.priority || a.index - b.index);
+    const sessions = new Map<SchedulerDevice, number>();
+    let threadsInUse = 0;
+    let settled = 0;
+
+    if (tasks.length === 0) {
+      resolve(results);
+      return;
+    }
+
+    const start = (task: ScheduledTask<T>, index: number, threads: number) => {
+      sessions.set(task.device, (sessions.get(task.device) ?? 0) + (task.sessions ?? 1));
+      threadsInUse += threads;
+
+      // Deferred so a task that throws synchronously settles like any other
+      Promise.resolve()
+        .then(task.run)
+        .then(
+          (value) => {
+            results[index] = { task, value };
+          },
+          (err) => {
+            results[index] = {
+              task,
+              error: err instanceof Error ? err.message : 'Unknown error',
+            };
+          }
+        )
+        .finally(() => {
+          sessions.set(task.device, (sessions.get(task.device) ?? 0) - (task.sessions ?? 1));
+          threadsInUse -= threads;
+          settled++;
+          if (settled === tasks.length) {
+            resolve(results);
+          } else {
+            fill();
+          }
+        });
+    };
+
+    const fill = () => {
+      const blocked = new Set<SchedulerDevice>();
+      for (let idx = 0; idx < pending.length; ) {
+        const { task, index } = pending[idx];
+        // A task larger than the whole budget, or than the device allows,
+        // runs on its own
+        const threads = Math.min(task.threads, threadBudget);
+        const inUse = sessions.get(task.device) ?? 0;
+        const fits =
+          !blocked.has(task.device) &&
+          (inUse === 0 || inUse + (task.sessions ?? 1) <= DEVICE_CONCURRENCY[task.device]) &&
+          threadsInUse + threads <= threadBudget;
+
+        if (fits) {
+          pending.splice(idx, 1);
+          start(task, index, threads);
+        } else {
+          blocked.add(task.device);
+          idx++;
+        }
+      }
+    };
+
+    fill();
+  });
+}
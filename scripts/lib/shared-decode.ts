@@ -0,0 +1,74 @@
+/**
+ * Single-decode, multi-output encoding (--single-decode).
+ *
+ * Every rendition normally runs its own ffmpeg, which decodes the whole
+ * source again and, for the SDR rungs of an HDR source, tone-maps it again:
+ * a five-rung ladder of a 4K HDR master is decoded ten times for HEVC and
+ * VP9. In this mode the rungs of a codec share one process. The source is
+ * decoded, deinterlaced and cropped once, tone-mapped once per distinct
+ * tone-map setting, then split into each rung's frame rate and scale. Every
+ * rung is still its own output with its own encoder options.
+ *
+ * Only rungs decoded to CPU frames share a process; rungs decoded on the
+ * GPU are cheap to decode anyway. QSV, VAAPI, AMF and VideoToolbox encoders
+ * keep one process per rung, and so does a codec with a single such rung.
+ */
+
+export interface SharedRungFilters {
+  branch: string | null; // Shared by every rung with the same value (tone-mapping)
+  chain: string; // The rung's own filters (frame rate, scale, encoder format)
+}
+
+// Output pad of the nth rung, mapped to its output with -map
+export function getSharedOutputLabel(idx: number): string {
+  return `[v${idx}]`;
+}
+
+/**
+ * -filter_complex graph feeding every rung from the first video stream.
+ * Split points are only inserted where the graph actually branches.
+ */
+export function buildSplitFilterGraph(prefix: string[], rungs: SharedRungFilters[]): string {
+  const branches = new Map<string | null, number[]>();
+  rungs.forEach((rung, idx) => {
+    branches.set(rung.branch, [...(branches.get(rung.branch) ?? []), idx]);
+  });
+
+  const statements: string[] = [];
+  // e.g. "[b0]zscale...,split=2[r0][r1]", or "[r0]scale=...[v0]"
+  const node = (input: string, filters: string[], outputs: string[]) => {
+    const chain = outputs.length > 1 ? [...filters, `split=${outputs.length}`] : filters;
+    statements.push(`${input}${chain.join(',')}${outputs.join('')}`);
+  };
+  const addBranch = (input: string, filters: string[], indices: number[]) => {
+    if (indices.length === 1) {
+      node(input, [...filters, rungs[indices[0]].chain], [getSharedOutputLabel(indices[0])]);
+      return;
+    }
+    node(input, filters, indices.map((idx) => `[r${idx}]`));
+    for (const idx of indices) {
+      node(`[r${idx}]`, [rungs[idx].chain], [getSharedOutputLabel(idx)]);
+    }
+  };
+
+  const groups = [...branches.entries()];
+  if (groups.length === 1) {
+    const [branch, indices] = groups[0];
+    addBranch('[0:v:0]', [...prefix, ...(branch ? [branch] : [])], indices);
+  } else {
+    node('[0:v:0]', prefix, groups.map((_, group) => `[b${group}]`));
+    groups.forEach(([branch, indices], group) => {
+      addBranch(`[b${group}]`, branch ? [branch] : [], indices);
+    });
+  }
+  return statements.join(';');
+}
+
+// ffmpeg's stats line reports the output position, e.g. "time=00:01:23.45";
+// the frame count there is only the first output's
+export function parseStatsTime(stats: string): number | null {
+  const matches = [...stats.matchAll(/time=\s*(\d+):(\d+):(\d+(?:\.\d+)?)/g)];
+  const last = matches[matches.length - 1];
+  if (!last) return null;
+  return parseInt(last[1], 10) * 3600 + parseInt(last[2], 10) * 60 + parseFloat(last[3]);
+}
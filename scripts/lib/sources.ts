@@ -0,0 +1,55 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+// Container formats accepted as sources (matches the SourceInput hint)
+export const VIDEO_EXTENSIONS = ['.mp4', '.mkv', '.mov', '.avi', '.webm'];
+
+export function isVideoFile(filePath: string): boolean {
+  return VIDEO_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+function hasGlobChars(segment: string): boolean {
+  return /[*?[\]{}]/.test(segment);
+}
+
+/**
+ * Expand a source pattern into a sorted list of absolute video file paths.
+ * Accepts either a directory (all video files directly inside it) or a glob
+ * such as `season1/*.mkv` or `masters/**\/*.mov`, resolved against baseDir.
+ */
+export async function expandSourcePattern(
+  pattern: string,
+  baseDir: string = process.cwd()
+): Promise<string[]> {
+  const resolved = path.resolve(baseDir, pattern);
+
+  if (!hasGlobChars(pattern)) {
+    const stat = await fs.stat(resolved).catch(() => null);
+    if (!stat) {
+      throw new Error(`Source path not found: ${resolved}`);
+    }
+    if (stat.isFile()) {
+      return [resolved];
+    }
+    const entries = await fs.readdir(resolved, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isFile() && isVideoFile(entry.name))
+      .map((entry) => path.join(resolved, entry.name))
+      .sort();
+  }
+
+  // Scan from the deepest directory that has no glob characters
+  const segments = resolved.split(path.sep);
+  const firstGlob = segments.findIndex(hasGlobChars);
+  const root = segments.slice(0, firstGlob).join(path.sep) || path.sep;
+  const relativePattern = segments.slice(firstGlob).join('/');
+
+  const matches: string[] = [];
+  const glob = new Bun.Glob(relativePattern);
+  for await (const match of glob.scan({ cwd: root, absolute: true, onlyFiles: true })) {
+    if (isVideoFile(match)) {
+      matches.push(match);
+    }
+  }
+  return matches.sort();
+}
@@ -0,0 +1,278 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import type {
+  MediaInfo,
+  Rendition,
+  TonemapOperator,
+  TonemapPreview,
+  TonemapSettings,
+  VideoInfo,
+} from './types.js';
+import { buildDeinterlaceFilter } from './deinterlace.js';
+import { buildCropFilter, getCroppedDisplaySize } from './crop.js';
+import { releaseProcess, trackProcess } from './run-control.js';
+
+/**
+ * HDR to SDR tone mapping.
+ *
+ * hable, mobius and reinhard run through zscale and FFmpeg's tonemap filter.
+ * The source is linearised relative to the SDR reference white (targetNits),
+ * so the tonemap peak is the source peak in multiples of it. bt2390 (the
+ * ITU-R BT.2390 EETF) is only available through libplacebo, which does its
+ * own desaturation and peak handling: desat, peak and targetNits don't apply
+ * to it, and dynamicPeak turns on libplacebo's per-scene peak detection.
+ *
+ * For the other operators dynamicPeak is a pre-pass over the source's
+ * keyframes. The measured peak replaces the mastering metadata, which often
+ * claims far more than the content actually reaches.
+ */
+
+export const TONEMAP_OPERATORS: readonly TonemapOperator[] = [
+  'hable',
+  'mobius',
+  'reinhard',
+  'bt2390',
+];
+
+export const DEFAULT_TONEMAP: TonemapSettings = {
+  operator: 'hable',
+  targetNits: 100,
+  desat: 0,
+  dynamicPeak: false,
+};
+
+// HLG has no mastering metadata; its peak is the 1000 nit reference display
+const HLG_PEAK_NITS = 1000;
+
+// Per-frame maxima above this percentile are treated as outliers (flashes,
+// single specular highlights)
+const PEAK_PERCENTILE = 0.99;
+
+const PREVIEW_FRAMES = 3;
+const PREVIEW_WIDTH = 480; // Per operator; the frames are stacked side by side
+
+export class TonemapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TonemapError';
+  }
+}
+
+/**
+ * Tone-mapping for one rendition: the rung's overrides over the run's.
+ */
+export function resolveTonemap(settings: TonemapSettings, rendition?: Rendition): TonemapSettings {
+  return { ...settings, ...rendition?.tonemap };
+}
+
+export function formatTonemap(tonemap: TonemapSettings): string {
+  if (tonemap.operator === 'bt2390') {
+    return `bt2390${tonemap.dynamicPeak ? ', dynamic peak' : ''}`;
+  }
+  const peak = tonemap.peak !== undefined ? `, peak ${tonemap.peak} nits` : '';
+  return `${tonemap.operator}, target ${tonemap.targetNits} nits, desat ${tonemap.desat}${peak}`;
+}
+
+function getSourcePeak(video: VideoInfo, tonemap: TonemapSettings): number | undefined {
+  if (tonemap.peak !== undefined) return tonemap.peak;
+  return video.hdrType === 'HLG' ? HLG_PEAK_NITS : undefined;
+}
+
+/**
+ * Filter chain converting an HDR frame to 8-bit BT.709. Without a peak the
+ * tonemap filter reads it from the frame's mastering metadata.
+ */
+export function buildTonemapFilter(video: VideoInfo, tonemap: TonemapSettings): string {
+  if (tonemap.operator === 'bt2390') {
+    return `libplacebo=tonemapping=bt.2390:peak_detect=${tonemap.dynamicPeak ? 1 : 0}:colorspace=bt709:color_primaries=bt709:color_trc=bt709:range=tv:format=yuv420p`;
+  }
+
+  // The input transfer is set explicitly for HLG since broadcast files often
+  // lose it on decode
+  const transferIn = video.hdrType === 'HLG' ? 'tin=arib-std-b67:' : '';
+  const peak = getSourcePeak(video, tonemap);
+  const peakArg =
+    peak !== undefined
+      ? `:peak=${Math.round(Math.max(peak / tonemap.targetNits, 1) * 100) / 100}`
+      : '';
+
+  return (
+    `zscale=${transferIn}t=linear:npl=${tonemap.targetNits},format=gbrpf32le,zscale=p=bt709,` +
+    `tonemap=tonemap=${tonemap.operator}:desat=${tonemap.desat}${peakArg},` +
+    'zscale=t=bt709:m=bt709:r=tv,format=yuv420p'
+  );
+}
+
+/**
+ * Whether the peak detection pre-pass runs. HLG is scene-referred, so there
+ * is no absolute peak to measure.
+ */
+export function needsPeakDetection(video: VideoInfo, tonemap: TonemapSettings): boolean {
+  return (
+    tonemap.dynamicPeak &&
+    tonemap.operator !== 'bt2390' &&
+    tonemap.peak === undefined &&
+    video.hdrType !== 'SDR' &&
+    video.hdrType !== 'HLG'
+  );
+}
+
+export function buildPeakDetectArgs(inputPath: string): string[] {
+  return [
+    '-hide_banner',
+    '-nostats',
+    '-skip_frame',
+    'nokey',
+    '-i',
+    inputPath,
+    '-map',
+    '0:v:0',
+    '-vf',
+    'format=yuv420p10le,signalstats,metadata=print:key=lavfi.signalstats.YMAX:file=-',
+    '-an',
+    '-f',
+    'null',
+    '-',
+  ];
+}
+
+// SMPTE ST 2084 (PQ) EOTF for a limited range 10-bit code value, in nits
+function pqToNits(code: number): number {
+  const m1 = 2610 / 16384;
+  const m2 = (2523 / 4096) * 128;
+  const c1 = 3424 / 4096;
+  const c2 = (2413 / 4096) * 32;
+  const c3 = (2392 / 4096) * 32;
+
+  const signal = Math.min(Math.max((code - 64) / 876, 0), 1);
+  const power = Math.pow(signal, 1 / m2);
+  return Math.pow(Math.max(power - c1, 0) / (c2 - c3 * power), 1 / m1) * 10000;
+}
+
+/**
+ * Measure the peak luminance the source actually reaches, in nits.
+ */
+export async function detectPeakLuminance(inputPath: string): Promise<number> {
+  const proc = Bun.spawn(['ffmpeg', ...buildPeakDetectArgs(inputPath)], {
+    stdout: 'pipe',
+    stderr: 'pipe',
+  });
+  const tracked = trackProcess(proc);
+  const [stdout, stderr] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  const exitCode = await proc.exited;
+  await releaseProcess(tracked);
+
+  if (exitCode !== 0) {
+    throw new TonemapError(`Peak detection failed with code ${exitCode}\n${stderr.slice(-2000)}`);
+  }
+
+  const maxima = [...stdout.matchAll(/lavfi\.signalstats\.YMAX=(\d+)/g)]
+    .map((match) => parseInt(match[1], 10))
+    .sort((a, b) => a - b);
+  if (maxima.length === 0) {
+    throw new TonemapError('Peak detection produced no measurements');
+  }
+
+  const code = maxima[Math.min(Math.floor(maxima.length * PEAK_PERCENTILE), maxima.length - 1)];
+  return Math.round(pqToNits(code));
+}
+
+export function getPreviewDir(outputPath: string): string {
+  return path.join(outputPath, 'tonemap-preview');
+}
+
+/**
+ * Frames spread evenly across the source, skipping the very start and end.
+ */
+export function getPreviewTimestamps(duration: number): number[] {
+  return Array.from({ length: PREVIEW_FRAMES }, (_, idx) =>
+    Math.floor((duration * (idx + 1)) / (PREVIEW_FRAMES + 1))
+  );
+}
+
+/**
+ * One PNG with the frame at `timestamp` tone-mapped by every candidate,
+ * left to right.
+ */
+export function buildPreviewArgs(
+  inputPath: string,
+  outputPath: string,
+  timestamp: number,
+  video: VideoInfo,
+  candidates: TonemapSettings[]
+): string[] {
+  const display = getCroppedDisplaySize(video);
+  const height = Math.round((PREVIEW_WIDTH * display.height) / display.width / 2) * 2;
+  const scale = `scale=${PREVIEW_WIDTH}:${height},setsar=1`;
+
+  const splits = candidates.map((_, idx) => `[s${idx}]`).join('');
+  const chains = candidates.map(
+    (tonemap, idx) => `[s${idx}]${buildTonemapFilter(video, tonemap)},${scale}[p${idx}]`
+  );
+  const stacked = candidates.map((_, idx) => `[p${idx}]`).join('');
+  const prepare = [buildDeinterlaceFilter(video), buildCropFilter(video)]
+    .filter(Boolean)
+    .map((filter) => `${filter},`)
+    .join('');
+  const graph = [
+    `[0:v:0]${prepare}split=${candidates.length}${splits}`,
+    ...chains,
+    `${stacked}hstack=inputs=${candidates.length}`,
+  ].join(';');
+
+  return [
+    '-y',
+    '-hide_banner',
+    '-ss',
+    timestamp.toString(),
+    '-i',
+    inputPath,
+    '-filter_complex',
+    graph,
+    '-frames:v',
+    '1',
+    outputPath,
+  ];
+}
+
+/**
+ * Render the preview frames for every operator with the run's other
+ * tone-mapping settings. `onProgress` is called after each frame.
+ */
+export async function renderTonemapPreview(
+  inputPath: string,
+  outputDir: string,
+  mediaInfo: MediaInfo,
+  tonemap: TonemapSettings,
+  onProgress?: (done: number, total: number) => void
+): Promise<TonemapPreview> {
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const operators = [...TONEMAP_OPERATORS];
+  const candidates = operators.map((operator) => ({ ...tonemap, operator }));
+  const timestamps = getPreviewTimestamps(mediaInfo.duration);
+  const frames: TonemapPreview['frames'] = [];
+
+  for (const timestamp of timestamps) {
+    const framePath = path.join(outputDir, `frame_${timestamp}s.png`);
+    const proc = Bun.spawn(
+      ['ffmpeg', ...buildPreviewArgs(inputPath, framePath, timestamp, mediaInfo.video, candidates)],
+      { stdout: 'ignore', stderr: 'pipe' }
+    );
+    const tracked = trackProcess(proc, { outputs: [framePath] });
+    const stderr = await new Response(proc.stderr).text();
+    const exitCode = await proc.exited;
+    await releaseProcess(tracked);
+
+    if (exitCode !== 0) {
+      throw new TonemapError(`Preview render failed with code ${exitCode}\n${stderr.slice(-2000)}`);
+    }
+    frames.push({ timestamp, path: framePath });
+    onProgress?.(frames.length, timestamps.length);
+  }
+
+  return { operators, frames };
+}
@@ -69,6 +69,29 @@ export async function checkTool(
   }
 }
 
+// Only needed to carry HDR10+ / Dolby Vision metadata (see dynamic-hdr.ts)
+export type OptionalTool = 'hdr10plus_tool' | 'dovi_tool' | 'MP4Box';
+
+export async function checkOptionalTool(name: OptionalTool): Promise<boolean> {
+  try {
+    switch (name) {
+      case 'hdr10plus_tool':
+        await $`hdr10plus_tool --version`.quiet();
+        return true;
+      case 'dovi_tool':
+        await $`dovi_tool --version`.quiet();
+        return true;
+      case 'MP4Box':
+        await $`MP4Box -version`.quiet();
+        return true;
+      default:
+        return false;
+    }
+  } catch {
+    return false;
+  }
+}
+
 export async function checkAllTools(): Promise<ToolStatus> {
   const [ffmpeg, ffprobe, packager] = await Promise.all([
     checkTool('ffmpeg'),
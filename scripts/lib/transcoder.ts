@@ -7,104 +7,233 @@ import type {
   TranscodeMode,
   TranscodeSettings,
   TranscodeProgress,
+  EncodingPreset,
   AudioStream,
   SubtitleStream,
+  VideoCodec,
+  VideoInfo,
+  VideoRange,
+  TonemapSettings,
 } from './types.js';
 import { getLogger } from './logger.js';
+import { verifyHDROutput } from './probe.js';
+import {
+  buildDolbyVisionRemuxArgs,
+  buildDynamicX265Params,
+  carriesDynamicMetadata,
+  type DynamicMetadata,
+  type DynamicMetadataType,
+} from './dynamic-hdr.js';
+import { DEFAULT_TONEMAP, buildTonemapFilter, formatTonemap, resolveTonemap } from './tonemap.js';
+import { buildDeinterlaceFilter } from './deinterlace.js';
+import { buildCropFilter } from './crop.js';
+import { buildFrameRateFilter, getRenditionFrameRate } from './frame-rate.js';
+import { DEFAULT_SEGMENT_DURATION, buildKeyframeArgs } from './keyframes.js';
+import { buildSplitFilterGraph, getSharedOutputLabel, parseStatsTime } from './shared-decode.js';
+import { releaseProcess, trackProcess, type ProcessOwner } from './run-control.js';
+import { completeOutput, isOutputComplete, startOutput, type JournalInputs } from './journal.js';
 
 export interface TranscodeCallbacks {
   onProgress: (progress: TranscodeProgress) => void;
-  onPassComplete: (pass: 1 | 2, codec: 'vp9' | 'hevc', quality: string) => void;
+  onPassComplete: (pass: 1 | 2, codec: VideoCodec, quality: string) => void;
   onComplete: (
-    codec: 'vp9' | 'hevc',
+    codec: VideoCodec,
     quality: string,
     outputPath: string
   ) => void;
-  onError: (codec: 'vp9' | 'hevc', quality: string, error: string) => void;
-}
-
-export function getTranscodeSettings(mode: TranscodeMode): TranscodeSettings {
-  if (mode === 'dev') {
-    return {
-      mode: 'dev',
-      passes: 1,
-      vp9Deadline: 'realtime',
-      vp9CpuUsed: 8,
-      hevcPreset: 'p1',
-      x265Preset: 'ultrafast',
-    };
-  }
+  onError: (codec: VideoCodec, quality: string, error: string) => void;
+}
+
+/**
+ * Mode defaults, overridden by the preset. `tonemap` overrides the preset's
+ * tone-mapping (the operator picked from the TUI preview).
+ */
+export function getTranscodeSettings(
+  mode: TranscodeMode,
+  preset?: EncodingPreset,
+  tonemap?: Partial<TonemapSettings>
+): TranscodeSettings {
+  const defaults: TranscodeSettings =
+    mode === 'dev'
+      ? {
+          mode: 'dev',
+          passes: 1,
+          vp9Deadline: 'realtime',
+          vp9CpuUsed: 8,
+          hevcPreset: 'p1',
+          x265Preset: 'ultrafast',
+          x264Preset: 'ultrafast',
+          svtAv1Preset: 12,
+          av1FilmGrain: 0,
+          av1FilmGrainDenoise: false,
+          segmentDuration: DEFAULT_SEGMENT_DURATION,
+          tonemap: DEFAULT_TONEMAP,
+        }
+      : {
+          mode: 'prod',
+          passes: 2,
+          vp9Deadline: 'good',
+          vp9CpuUsed: 2,
+          hevcPreset: 'p5',
+          x265Preset: 'medium',
+          x264Preset: 'medium',
+          svtAv1Preset: 6,
+          av1FilmGrain: 0,
+          av1FilmGrainDenoise: false,
+          segmentDuration: DEFAULT_SEGMENT_DURATION,
+          tonemap: DEFAULT_TONEMAP,
+        };
 
   return {
-    mode: 'prod',
-    passes: 2,
-    vp9Deadline: 'good',
-    vp9CpuUsed: 2,
-    hevcPreset: 'p5',
-    x265Preset: 'medium',
+    ...defaults,
+    ...preset?.settings,
+    tonemap: { ...defaults.tonemap, ...preset?.settings.tonemap, ...tonemap },
   };
 }
 
-// HDR to SDR tone mapping filter for lower renditions
-// Software-based zscale tonemap (slow but compatible)
-const TONEMAP_FILTER_SOFTWARE =
-  'zscale=t=linear:npl=100,format=gbrpf32le,zscale=p=bt709,tonemap=tonemap=hable:desat=0,zscale=t=bt709:m=bt709:r=tv,format=yuv420p';
+/**
+ * Rotated or anamorphic sources need CPU frames: FFmpeg's autorotate inserts
+ * a transpose filter that cannot run on HW frames, and the SAR is reset with
+ * setsar after scaling to the display geometry.
+ */
+function needsGeometryCorrection(video: VideoInfo): boolean {
+  return video.rotation !== 0 || video.sampleAspectRatio !== 1;
+}
+
+// Deinterlacing, inverse telecine and cropping run in software as well
+function needsCpuFilters(video: VideoInfo): boolean {
+  return (
+    needsGeometryCorrection(video) || video.scanType !== 'progressive' || video.crop !== undefined
+  );
+}
 
 /**
- * Build scale filter using height-based scaling to preserve aspect ratio.
- * Uses -2 for width to ensure it's divisible by 2 (required by most encoders).
+ * Whether the codec is encoded on the GPU for this HW config (as opposed to
+ * libx265/libvpx/SVT-AV1/libx264, which convert with -pix_fmt themselves).
+ */
+export function usesHWEncoder(codec: VideoCodec, hwAccel: HWAccelInfo): boolean {
+  if (codec === 'vp9') return Boolean(hwAccel.supportsVP9HW);
+  if (codec === 'av1') return Boolean(hwAccel.supportsAV1HW);
+  return hwAccel.method !== 'software';
+}
+
+function buildResizeFilter(rendition: Rendition, video: VideoInfo): string {
+  const setsar = needsGeometryCorrection(video) ? ',setsar=1' : '';
+  return `scale=${rendition.width}:${rendition.height}${setsar}`;
+}
+
+/**
+ * Software part of a rung's filter chain: deinterlacing or inverse telecine,
+ * frame rate, crop, tone-mapping and scale. The per-title probes use it too,
+ * so they measure the frames the rung is encoded from.
+ */
+export function buildSoftwareFilter(
+  rendition: Rendition,
+  video: VideoInfo,
+  tonemap: TonemapSettings | null
+): string {
+  return [
+    buildDeinterlaceFilter(video),
+    buildFrameRateFilter(video, rendition),
+    buildCropFilter(video),
+    tonemap && buildTonemapFilter(video, tonemap),
+    buildResizeFilter(rendition, video),
+  ]
+    .filter(Boolean)
+    .join(',');
+}
+
+/**
+ * Build the scale filter. Renditions carry explicit even output dimensions
+ * fitted to the source's display geometry (see buildRenditionLadder), so the
+ * filter scales to both width and height rather than by height alone.
+ * HDR renditions are kept at 10-bit (P010) for HW encoders; the others are
+ * tone-mapped in software (see tonemap.ts). Interlaced and telecined sources
+ * are made progressive first (see deinterlace.ts), VFR sources and rungs
+ * with a frame rate cap get a constant rate (see frame-rate.ts) and black
+ * bars are cropped (see crop.ts).
  */
 function buildScaleFilter(
   rendition: Rendition,
   hwAccel: HWAccelInfo,
-  needsTonemap: boolean,
-  codec: 'vp9' | 'hevc' = 'hevc'
+  tonemap: TonemapSettings | null,
+  codec: VideoCodec,
+  video: VideoInfo,
+  videoRange: VideoRange
 ): string {
-  const { height } = rendition;
+  const { width, height } = rendition;
+  const tenBit = videoRange !== 'SDR';
+  const frameRate = buildFrameRateFilter(video, rendition);
+  const softwareScale = buildSoftwareFilter(rendition, video, tonemap);
+
+  // SVT-AV1 runs on CPU frames; keep 10-bit when HDR is preserved
+  if (codec === 'av1' && !hwAccel.supportsAV1HW) {
+    return softwareScale;
+  }
 
-  if (needsTonemap) {
+  if (tonemap || needsCpuFilters(video)) {
     // All tonemapping uses software pipeline for maximum compatibility
     // OpenCL/CUDA tonemap often fails due to driver issues on Windows
-
-    // NVIDIA HEVC: Software tonemap + scale, then hwupload for NVENC encoding
-    if (hwAccel.method === 'nvidia' && codec === 'hevc') {
-      return `${TONEMAP_FILTER_SOFTWARE},scale=-2:${height},hwupload_cuda`;
-    }
-    // QSV VP9: Software tonemap + scale, output nv12 for QSV encoder
-    if (hwAccel.method === 'qsv' && codec === 'vp9' && hwAccel.supportsVP9HW) {
-      return `${TONEMAP_FILTER_SOFTWARE},scale=-2:${height},format=nv12`;
-    }
-    // VAAPI VP9: Software tonemap + scale
-    if (hwAccel.method === 'vaapi' && codec === 'vp9' && hwAccel.supportsVP9HW) {
-      return `${TONEMAP_FILTER_SOFTWARE},scale=-2:${height}`;
-    }
-    // Other HW or software: Software tonemap + scale
-    return `${TONEMAP_FILTER_SOFTWARE},scale=-2:${height}`;
+    return `${softwareScale}${buildEncoderInputFilter(codec, hwAccel, videoRange)}`;
   }
 
-  // No tonemapping needed - use HW scaling where available
+  // No tonemapping needed - use HW scaling where available. The fps filter
+  // only drops and repeats frames, so it runs on HW frames as well
+  const fps = frameRate ? `${frameRate},` : '';
   if (hwAccel.method === 'nvidia') {
-    return `scale_cuda=w=-2:h=${height}`;
+    return `${fps}scale_cuda=w=${width}:h=${height}${tenBit ? ':format=p010le' : ''}`;
   }
 
   if (hwAccel.method === 'qsv') {
-    return `scale_qsv=w=-2:h=${height}`;
+    return `${fps}scale_qsv=w=${width}:h=${height}${tenBit ? ':format=p010' : ''}`;
   }
 
   if (hwAccel.method === 'vaapi') {
-    return `scale_vaapi=w=-2:h=${height}`;
+    return `${fps}scale_vaapi=w=${width}:h=${height}${tenBit ? ':format=p010' : ''}`;
   }
 
-  // Software or other - use -2 for width to preserve aspect ratio
-  return `scale=-2:${height}`;
+  return softwareScale;
+}
+
+/**
+ * Conversion at the end of a software filter chain for the encoder that
+ * takes the frames. Empty for software encoders.
+ */
+function buildEncoderInputFilter(
+  codec: VideoCodec,
+  hwAccel: HWAccelInfo,
+  videoRange: VideoRange
+): string {
+  // SVT-AV1 runs on CPU frames; keep 10-bit when HDR is preserved
+  if (codec === 'av1' && !hwAccel.supportsAV1HW) return '';
+
+  const tenBit = videoRange !== 'SDR';
+  const hwFormat = tenBit && usesHWEncoder(codec, hwAccel) ? ',format=p010le' : '';
+
+  // NVIDIA HEVC/AV1/H.264: Software tonemap + scale, then hwupload for NVENC encoding
+  if (hwAccel.method === 'nvidia' && codec !== 'vp9') {
+    return `${hwFormat},hwupload_cuda`;
+  }
+  // QSV VP9/AV1: Software tonemap + scale, output nv12 (p010 for HDR) for QSV encoder
+  if (hwAccel.method === 'qsv' && ((codec === 'vp9' && hwAccel.supportsVP9HW) || codec === 'av1')) {
+    return `,format=${tenBit ? 'p010le' : 'nv12'}`;
+  }
+  // VAAPI VP9, other HW or software: Software tonemap + scale
+  return hwFormat;
 }
 
+// Forced keyframes become IDR frames rather than open-GOP I-frames, so
+// every segment can be decoded on its own (libx264, libx265 and NVENC)
+const FORCED_IDR = ['-forced-idr', '1'];
+
 function buildVP9Args(
   rendition: Rendition,
   settings: TranscodeSettings,
   pass: 1 | 2,
   passLogFile: string,
-  hwAccel: HWAccelInfo
+  hwAccel: HWAccelInfo,
+  videoRange: VideoRange,
+  keyframes: string[]
 ): string[] {
   const bitrate = rendition.vp9Bitrate;
   const maxrate = rendition.maxrate;
@@ -122,8 +251,7 @@ function buildVP9Args(
       `${maxrate}k`,
       '-bufsize',
       `${bufsize}k`,
-      '-g',
-      '120',
+      ...keyframes,
       // Use low_power mode for better compatibility
       '-low_power',
       '1',
@@ -141,10 +269,7 @@ function buildVP9Args(
       `${maxrate}k`,
       '-bufsize',
       `${bufsize}k`,
-      '-g',
-      '120',
-      '-keyint_min',
-      '120',
+      ...keyframes,
     ];
   }
 
@@ -154,10 +279,7 @@ function buildVP9Args(
     'libvpx-vp9',
     '-b:v',
     `${bitrate}k`,
-    '-g',
-    '120',
-    '-keyint_min',
-    '120',
+    ...keyframes,
     '-deadline',
     settings.vp9Deadline,
     '-cpu-used',
@@ -170,6 +292,12 @@ function buildVP9Args(
     '1',
   ];
 
+  // Profile 2 is 10-bit 4:2:0. libvpx has no HDR metadata options; the
+  // WebM muxer writes the mastering display and light level it is given
+  if (videoRange !== 'SDR') {
+    args.push('-pix_fmt', 'yuv420p10le', '-profile:v', '2');
+  }
+
   if (settings.passes === 2) {
     args.push('-pass', pass.toString(), '-passlogfile', passLogFile);
 
@@ -186,11 +314,19 @@ function buildVP9Args(
 function buildHEVCArgs(
   rendition: Rendition,
   settings: TranscodeSettings,
-  hwAccel: HWAccelInfo
+  hwAccel: HWAccelInfo,
+  videoRange: VideoRange,
+  video: VideoInfo,
+  dynamicMetadata: DynamicMetadata | null,
+  keyframes: string[],
+  threads: number | null
 ): string[] {
   const bitrate = rendition.hevcBitrate;
   const maxrate = Math.floor(bitrate * 1.5);
   const bufsize = bitrate * 2;
+  // HW encoders pick up the P010 frames from the filter chain; mastering
+  // display and light level reach them as frame side data from the decoder
+  const profileArgs = videoRange !== 'SDR' ? ['-profile:v', 'main10'] : [];
 
   // NVIDIA can do GPU tonemapping + GPU encoding (fast)
   if (hwAccel.method === 'nvidia') {
@@ -203,13 +339,12 @@ function buildHEVCArgs(
       `${maxrate}k`,
       '-bufsize',
       `${bufsize}k`,
-      '-g',
-      '120',
-      '-keyint_min',
-      '120',
+      ...keyframes,
+      ...FORCED_IDR,
       '-preset',
       settings.hevcPreset,
       ...(settings.mode === 'prod' ? ['-multipass', 'fullres'] : []),
+      ...profileArgs,
     ];
   }
 
@@ -223,10 +358,10 @@ function buildHEVCArgs(
       `${maxrate}k`,
       '-bufsize',
       `${bufsize}k`,
-      '-g',
-      '120',
+      ...keyframes,
       '-preset',
       settings.mode === 'prod' ? 'medium' : 'veryfast',
+      ...profileArgs,
     ];
   }
 
@@ -240,10 +375,10 @@ function buildHEVCArgs(
       `${maxrate}k`,
       '-bufsize',
       `${bufsize}k`,
-      '-g',
-      '120',
+      ...keyframes,
       '-quality',
       settings.mode === 'prod' ? 'balanced' : 'speed',
+      ...profileArgs,
     ];
   }
 
@@ -257,8 +392,8 @@ function buildHEVCArgs(
       `${maxrate}k`,
       '-bufsize',
       `${bufsize}k`,
-      '-g',
-      '120',
+      ...keyframes,
+      ...profileArgs,
     ];
   }
 
@@ -272,8 +407,8 @@ function buildHEVCArgs(
       `${maxrate}k`,
       '-bufsize',
       `${bufsize}k`,
-      '-g',
-      '120',
+      ...keyframes,
+      ...profileArgs,
     ];
   }
 
@@ -287,17 +422,280 @@ function buildHEVCArgs(
     `${maxrate}k`,
     '-bufsize',
     `${bufsize}k`,
-    '-g',
-    '120',
-    '-keyint_min',
-    '120',
+    ...keyframes,
+    ...FORCED_IDR,
     '-preset',
     settings.x265Preset,
+    ...(videoRange !== 'SDR' ? ['-pix_fmt', 'yuv420p10le'] : []),
     '-x265-params',
-    'log-level=error',
+    [
+      'log-level=error',
+      // x265 sizes its thread pool itself and ignores -threads
+      ...(threads !== null ? [`pools=${threads}`] : []),
+      ...buildX265HDRParams(videoRange, video),
+      ...(dynamicMetadata ? buildDynamicX265Params(dynamicMetadata) : []),
+    ].join(':'),
+  ];
+}
+
+/**
+ * BT.2020 signalling for HDR renditions that keep their 10-bit source. Set
+ * explicitly because HW-decoded frames do not always carry the source tags.
+ */
+function buildColorArgs(videoRange: VideoRange): string[] {
+  if (videoRange === 'SDR') return [];
+  return [
+    '-color_primaries',
+    'bt2020',
+    '-color_trc',
+    videoRange === 'HLG' ? 'arib-std-b67' : 'smpte2084',
+    '-colorspace',
+    'bt2020nc',
+  ];
+}
+
+/**
+ * HDR10 static metadata for x265: chromaticities in 0.00002 units and
+ * luminance in 0.0001 cd/m², e.g. master-display=G(13250,34500)...L(10000000,50).
+ */
+function buildX265HDRParams(videoRange: VideoRange, video: VideoInfo): string[] {
+  if (videoRange !== 'PQ') return [];
+
+  const params = ['hdr10=1', 'hdr10-opt=1', 'repeat-headers=1'];
+  const md = video.masteringDisplay;
+  if (md) {
+    const xy = ([x, y]: [number, number]) =>
+      `(${Math.round(x * 50000)},${Math.round(y * 50000)})`;
+    params.push(
+      `master-display=G${xy(md.green)}B${xy(md.blue)}R${xy(md.red)}WP${xy(md.whitePoint)}` +
+        `L(${Math.round(md.maxLuminance * 10000)},${Math.round(md.minLuminance * 10000)})`
+    );
+  }
+  if (video.contentLightLevel) {
+    const { maxCll, maxFall } = video.contentLightLevel;
+    params.push(`max-cll=${maxCll},${maxFall}`);
+  }
+  return params;
+}
+
+/**
+ * HDR10 static metadata for SVT-AV1, which takes plain decimal values:
+ * mastering-display=G(0.265,0.69)...L(1000,0.005).
+ */
+function buildSvtAv1HDRParams(videoRange: VideoRange, video: VideoInfo): string[] {
+  if (videoRange !== 'PQ') return [];
+
+  const params = ['enable-hdr=1'];
+  const md = video.masteringDisplay;
+  if (md) {
+    const num = (value: number) => Number(value.toFixed(4)).toString();
+    const xy = ([x, y]: [number, number]) => `(${num(x)},${num(y)})`;
+    params.push(
+      `mastering-display=G${xy(md.green)}B${xy(md.blue)}R${xy(md.red)}WP${xy(md.whitePoint)}` +
+        `L(${num(md.maxLuminance)},${num(md.minLuminance)})`
+    );
+  }
+  if (video.contentLightLevel) {
+    const { maxCll, maxFall } = video.contentLightLevel;
+    params.push(`content-light=${maxCll},${maxFall}`);
+  }
+  return params;
+}
+
+function buildAV1Args(
+  rendition: Rendition,
+  settings: TranscodeSettings,
+  hwAccel: HWAccelInfo,
+  videoRange: VideoRange,
+  video: VideoInfo,
+  keyframes: string[]
+): string[] {
+  const bitrate = rendition.av1Bitrate;
+  const maxrate = Math.floor(bitrate * 1.5);
+  const bufsize = bitrate * 2;
+
+  // Hardware AV1 keeps the decoded surface format (P010 for 10-bit HDR sources)
+  if (hwAccel.supportsAV1HW) {
+    const args = [
+      '-c:v',
+      hwAccel.av1Encoder,
+      '-b:v',
+      `${bitrate}k`,
+      '-maxrate',
+      `${maxrate}k`,
+      '-bufsize',
+      `${bufsize}k`,
+      ...keyframes,
+    ];
+    if (hwAccel.method === 'nvidia') {
+      args.push('-preset', settings.hevcPreset);
+    }
+    return args;
+  }
+
+  // Software SVT-AV1
+  const svtParams = ['tune=0', ...buildSvtAv1HDRParams(videoRange, video)];
+  if (settings.av1FilmGrain > 0) {
+    // Grain is stripped before encoding and re-synthesized by the decoder,
+    // which saves a lot of bitrate on grainy film sources
+    svtParams.push(
+      `film-grain=${settings.av1FilmGrain}`,
+      `film-grain-denoise=${settings.av1FilmGrainDenoise ? 1 : 0}`
+    );
+  }
+
+  return [
+    '-c:v',
+    'libsvtav1',
+    '-preset',
+    settings.svtAv1Preset.toString(),
+    '-b:v',
+    `${bitrate}k`,
+    ...keyframes,
+    '-pix_fmt',
+    videoRange !== 'SDR' ? 'yuv420p10le' : 'yuv420p',
+    '-svtav1-params',
+    svtParams.join(':'),
   ];
 }
 
+/**
+ * H.264 High profile, 8-bit 4:2:0: the widest-compatible fallback for
+ * players without HEVC/VP9 support. Always fed tone-mapped SDR.
+ */
+function buildH264Args(
+  rendition: Rendition,
+  settings: TranscodeSettings,
+  hwAccel: HWAccelInfo,
+  keyframes: string[]
+): string[] {
+  const bitrate = rendition.h264Bitrate;
+  const maxrate = Math.floor(bitrate * 1.5);
+  const bufsize = bitrate * 2;
+  const rateArgs = [
+    '-b:v',
+    `${bitrate}k`,
+    '-maxrate',
+    `${maxrate}k`,
+    '-bufsize',
+    `${bufsize}k`,
+    ...keyframes,
+  ];
+
+  switch (hwAccel.method) {
+    case 'nvidia':
+      return [
+        '-c:v',
+        'h264_nvenc',
+        ...rateArgs,
+        ...FORCED_IDR,
+        '-preset',
+        settings.hevcPreset,
+        '-profile:v',
+        'high',
+      ];
+    case 'qsv':
+      return [
+        '-c:v',
+        'h264_qsv',
+        ...rateArgs,
+        '-preset',
+        settings.mode === 'prod' ? 'medium' : 'veryfast',
+        '-profile:v',
+        'high',
+      ];
+    case 'amf':
+      return [
+        '-c:v',
+        'h264_amf',
+        ...rateArgs,
+        '-quality',
+        settings.mode === 'prod' ? 'balanced' : 'speed',
+        '-profile:v',
+        'high',
+      ];
+    case 'vaapi':
+      return ['-c:v', 'h264_vaapi', ...rateArgs, '-profile:v', 'high'];
+    case 'videotoolbox':
+      return ['-c:v', 'h264_videotoolbox', ...rateArgs, '-profile:v', 'high'];
+  }
+
+  // Software x264
+  return [
+    '-c:v',
+    'libx264',
+    ...rateArgs,
+    ...FORCED_IDR,
+    '-preset',
+    settings.x264Preset,
+    '-profile:v',
+    'high',
+    '-pix_fmt',
+    'yuv420p',
+  ];
+}
+
+interface EncoderOptions {
+  rendition: Rendition;
+  codec: VideoCodec;
+  hwAccel: HWAccelInfo;
+  settings: TranscodeSettings;
+  video: VideoInfo;
+  videoRange: VideoRange;
+  dynamicMetadata: DynamicMetadata | null; // Carried by this rung
+  keyframes: string[];
+  threads: number | null;
+  pass: 1 | 2;
+  passLogFile: string;
+}
+
+/**
+ * Output options of one rendition: encoder, thread limit and colour tags.
+ */
+function buildEncoderArgs(options: EncoderOptions): string[] {
+  const { rendition, codec, hwAccel, settings, video, videoRange, keyframes } = options;
+  // HW encoders leave the CPU alone
+  const threads = usesHWEncoder(codec, hwAccel) ? null : options.threads;
+  const args: string[] = [];
+
+  // Codec-specific args
+  if (codec === 'vp9') {
+    args.push(
+      ...buildVP9Args(
+        rendition,
+        settings,
+        options.pass,
+        options.passLogFile,
+        hwAccel,
+        videoRange,
+        keyframes
+      )
+    );
+  } else if (codec === 'h264') {
+    args.push(...buildH264Args(rendition, settings, hwAccel, keyframes));
+  } else if (codec === 'av1') {
+    args.push(...buildAV1Args(rendition, settings, hwAccel, videoRange, video, keyframes));
+  } else {
+    args.push(
+      ...buildHEVCArgs(
+        rendition,
+        settings,
+        hwAccel,
+        videoRange,
+        video,
+        options.dynamicMetadata,
+        keyframes,
+        threads
+      )
+    );
+  }
+  if (threads !== null) {
+    args.push('-threads', threads.toString());
+  }
+  args.push(...buildColorArgs(videoRange));
+  return args;
+}
+
 function buildHWAccelInputArgs(hwAccel: HWAccelInfo): string[] {
   if (hwAccel.hwaccelFlag && hwAccel.method !== 'software') {
     const args = ['-hwaccel', hwAccel.hwaccelFlag];
@@ -327,102 +725,166 @@ function getAudioCodec(stream: AudioStream): string {
 
 export function getOutputFileName(
   rendition: Rendition,
-  codec: 'vp9' | 'hevc'
+  codec: VideoCodec
 ): string {
   const ext = codec === 'vp9' ? 'webm' : 'mp4';
   return `video_${rendition.quality}_${codec}.${ext}`;
 }
 
-export async function checkOutputExists(
-  outputDir: string,
-  rendition: Rendition,
-  codec: 'vp9' | 'hevc'
-): Promise<boolean> {
-  const outputFileName = getOutputFileName(rendition, codec);
-  const outputPath = path.join(outputDir, outputFileName);
-  try {
-    await fs.access(outputPath);
-    return true;
-  } catch {
-    return false;
-  }
+export interface TranscodeCommand {
+  pass: 1 | 2;
+  isLastPass: boolean;
+  args: string[]; // ffmpeg arguments (without the binary)
 }
 
-export async function transcodeRendition(
-  inputPath: string,
-  outputDir: string,
-  rendition: Rendition,
-  codec: 'vp9' | 'hevc',
-  hwAccel: HWAccelInfo,
-  mediaInfo: MediaInfo,
-  settings: TranscodeSettings,
-  callbacks: TranscodeCallbacks,
-  skipIfExists: boolean = false
-): Promise<string | null> {
-  const logger = getLogger();
-  const ext = codec === 'vp9' ? 'webm' : 'mp4';
-  const outputFileName = `video_${rendition.quality}_${codec}.${ext}`;
-  const outputPath = path.join(outputDir, outputFileName);
-  const passLogFile = path.join(outputDir, `ffmpeg2pass_${rendition.quality}`);
-
-  await logger.section(`Transcoding ${rendition.quality} ${codec.toUpperCase()}`);
-  await logger.info(`Output: ${outputPath}`);
-
-  // Check if output already exists (dev mode skip)
-  if (skipIfExists) {
-    try {
-      await fs.access(outputPath);
-      await logger.info(`SKIPPED: Output file already exists`);
-      callbacks.onComplete(codec, rendition.quality, outputPath);
-      return outputPath;
-    } catch {
-      // File doesn't exist, continue with transcoding
-    }
-  }
+// A stretch of the source encoded to its own file
+export interface TranscodeChunk {
+  start: number; // Seconds
+  duration: number;
+  outputPath: string;
+  passLogFile: string;
+}
 
-  const totalFrames = Math.ceil(
-    mediaInfo.duration * mediaInfo.video.frameRate
-  );
+export interface TranscodePlan {
+  outputPath: string;
+  totalFrames: number;
+  needsTonemap: boolean;
+  tonemap: TonemapSettings | null; // Resolved for this rung when tone-mapped
+  videoRange: VideoRange;
+  dynamicMetadata: DynamicMetadataType | null; // HDR10+/DV carried by this rung
+  useHwAccelInput: boolean;
+  scaleFilter: string;
+  commands: TranscodeCommand[];
+  // MP4Box remux adding the Dolby Vision config; `inputPath` is the encode
+  remux?: { inputPath: string; args: string[] };
+}
 
-  // Determine if we need to tonemap HDR to SDR
-  // For VP9 with QSV/VAAPI: always tonemap because VP9 HW encoding is 8-bit only
-  // For others: tonemap based on rendition preserveHDR setting
-  let needsTonemap = !rendition.preserveHDR && mediaInfo.video.hdrType !== 'SDR';
+/**
+ * Whether a rendition is tone-mapped to SDR rather than keeping the source's
+ * HDR. For VP9 with QSV/VAAPI: always, because VP9 HW encoding is 8-bit
+ * only. For others: based on the rendition's preserveHDR setting.
+ */
+function needsTonemapping(
+  rendition: Rendition,
+  codec: VideoCodec,
+  hwAccel: HWAccelInfo,
+  video: VideoInfo
+): boolean {
+  if (video.hdrType === 'SDR') return false;
+  if (!rendition.preserveHDR) return true;
   if (
     codec === 'vp9' &&
     (hwAccel.method === 'qsv' || hwAccel.method === 'vaapi') &&
-    hwAccel.supportsVP9HW &&
-    mediaInfo.video.hdrType !== 'SDR'
+    hwAccel.supportsVP9HW
   ) {
     // Intel/VAAPI VP9 is 8-bit only, always tonemap HDR content
-    needsTonemap = true;
+    return true;
   }
+  // H.264 renditions target legacy SDR devices
+  return codec === 'h264';
+}
 
-  // Determine if we should use HW accel for input decoding
+/**
+ * Transfer function of the encoded rendition. HDR10, HDR10+ and the Dolby
+ * Vision base layer are all PQ.
+ */
+export function getVideoRange(
+  rendition: Rendition,
+  codec: VideoCodec,
+  hwAccel: HWAccelInfo,
+  video: VideoInfo
+): VideoRange {
+  if (needsTonemapping(rendition, codec, hwAccel, video)) return 'SDR';
+  if (video.hdrType === 'SDR') return 'SDR';
+  return video.hdrType === 'HLG' ? 'HLG' : 'PQ';
+}
+
+/**
+ * Determine if we should use HW accel for input decoding.
+ */
+function shouldUseHwAccelInput(
+  codec: VideoCodec,
+  hwAccel: HWAccelInfo,
+  needsTonemap: boolean,
+  video: VideoInfo
+): boolean {
   // Don't use HW accel input when tonemapping (software tonemap needs CPU frames)
   // Exception: NVIDIA HEVC can do GPU tonemap pipeline
-  let useHwAccelInput = false;
-  if (codec === 'hevc' && hwAccel.method === 'nvidia') {
+  // Rotated/anamorphic/interlaced/cropped sources are corrected on CPU frames as well
+  const needsCpuFrames = needsTonemap || needsCpuFilters(video);
+  if ((codec === 'hevc' || codec === 'h264') && hwAccel.method === 'nvidia') {
     // NVIDIA can handle tonemap on GPU, but the pipeline is complex
     // For now, don't use HW accel input when tonemapping to simplify the filter chain
-    useHwAccelInput = !needsTonemap;
-  } else if (codec === 'hevc' && !needsTonemap) {
+    return !needsCpuFrames;
+  } else if ((codec === 'hevc' || codec === 'h264') && !needsCpuFrames) {
     // Other HW: Only use HW accel when not tonemapping
-    useHwAccelInput = true;
+    return true;
   } else if (codec === 'vp9') {
     // VP9: Don't use HW accel input (software decode + software tonemap + software scale)
     // The encoder will handle the HW encoding from CPU frames
-    useHwAccelInput = false;
+    return false;
+  } else if (codec === 'av1') {
+    // AV1: HW decode only feeds a HW AV1 encoder; SVT-AV1 needs CPU frames
+    return Boolean(hwAccel.supportsAV1HW) && !needsCpuFrames;
   }
+  return false;
+}
 
-  const scaleFilter = buildScaleFilter(rendition, hwAccel, needsTonemap, codec);
+function getPassLogFile(outputDir: string, rendition: Rendition): string {
+  return path.join(outputDir, `ffmpeg2pass_${rendition.quality}`);
+}
 
-  await logger.info(`Total frames: ${totalFrames}`);
-  await logger.info(`Needs tonemap: ${needsTonemap}`);
-  await logger.info(`Scale filter: ${scaleFilter}`);
-  await logger.info(`HW Accel: ${hwAccel.displayName}`);
+const NULL_OUTPUT = process.platform === 'win32' ? 'NUL' : '/dev/null';
 
-  const runPass = async (pass: 1 | 2, isLastPass: boolean): Promise<void> => {
+/**
+ * Build every ffmpeg invocation needed for one rendition/codec pair without
+ * running anything. Used by transcodeRendition and by --dry-run.
+ */
+export function planTranscode(
+  inputPath: string,
+  outputDir: string,
+  rendition: Rendition,
+  codec: VideoCodec,
+  hwAccel: HWAccelInfo,
+  mediaInfo: MediaInfo,
+  settings: TranscodeSettings,
+  keyframeInterval: number, // See getKeyframeInterval
+  dynamicMetadata: DynamicMetadata | null = null,
+  threads: number | null = null, // Software encoder threads, see scheduler.ts
+  chunk: TranscodeChunk | null = null // Encode only this stretch (see chunked.ts)
+): TranscodePlan {
+  const outputPath =
+    chunk?.outputPath ?? path.join(outputDir, getOutputFileName(rendition, codec));
+  const passLogFile = chunk?.passLogFile ?? getPassLogFile(outputDir, rendition);
+
+  const frameRate = getRenditionFrameRate(mediaInfo.video, rendition);
+  const totalFrames = Math.ceil((chunk?.duration ?? mediaInfo.duration) * frameRate);
+  const keyframes = buildKeyframeArgs(frameRate, keyframeInterval);
+
+  const needsTonemap = needsTonemapping(rendition, codec, hwAccel, mediaInfo.video);
+  const tonemap = needsTonemap ? resolveTonemap(settings.tonemap, rendition) : null;
+  const videoRange = getVideoRange(rendition, codec, hwAccel, mediaInfo.video);
+  // Per-frame metadata starts at the first frame, so chunks can't carry it
+  const carried =
+    dynamicMetadata && !chunk && carriesDynamicMetadata(codec, hwAccel, videoRange)
+      ? dynamicMetadata
+      : null;
+  // Dolby Vision is encoded next to the output and remuxed into place
+  const encodePath =
+    carried?.type === 'DolbyVision' ? outputPath.replace(/\.mp4$/, '_rpu.mp4') : outputPath;
+
+  const useHwAccelInput = shouldUseHwAccelInput(codec, hwAccel, needsTonemap, mediaInfo.video);
+
+  const scaleFilter = buildScaleFilter(
+    rendition,
+    hwAccel,
+    tonemap,
+    codec,
+    mediaInfo.video,
+    videoRange
+  );
+
+  const buildPassArgs = (pass: 1 | 2, isLastPass: boolean): string[] => {
     const args: string[] = ['-y'];
 
     // Input args (HW accel)
@@ -432,49 +894,221 @@ export async function transcodeRendition(
       args.push(...buildHWAccelInputArgs(hwAccel));
     }
 
+    // Input seeking is frame-accurate when transcoding
+    if (chunk) {
+      args.push('-ss', chunk.start.toFixed(6), '-t', chunk.duration.toFixed(6));
+    }
     args.push('-i', inputPath);
 
     // Video filter
     args.push('-vf', scaleFilter);
 
-    // Codec-specific args
-    if (codec === 'vp9') {
-      args.push(...buildVP9Args(rendition, settings, pass, passLogFile, hwAccel));
-    } else {
-      args.push(...buildHEVCArgs(rendition, settings, hwAccel));
-    }
+    args.push(
+      ...buildEncoderArgs({
+        rendition,
+        codec,
+        hwAccel,
+        settings,
+        video: mediaInfo.video,
+        videoRange,
+        dynamicMetadata: carried,
+        keyframes,
+        threads,
+        pass,
+        passLogFile,
+      })
+    );
 
     if (isLastPass) {
       // Video-only output (audio is extracted separately for packaging)
       args.push('-an');
-      args.push(outputPath);
+      args.push(encodePath);
     } else {
       // First pass - null output
-      args.push('-an', '-f', 'null', process.platform === 'win32' ? 'NUL' : '/dev/null');
+      args.push('-an', '-f', 'null', NULL_OUTPUT);
     }
 
-    await logger.logCommand('ffmpeg', args);
+    return args;
+  };
 
-    // Run FFmpeg
-    const proc = Bun.spawn(['ffmpeg', ...args], {
-      stdout: 'pipe',
+  // Only software VP9 supports two-pass encoding
+  const commands: TranscodeCommand[] =
+    codec === 'vp9' && settings.passes === 2
+      ? [
+          { pass: 1, isLastPass: false, args: buildPassArgs(1, false) },
+          { pass: 2, isLastPass: true, args: buildPassArgs(2, true) },
+        ]
+      : [{ pass: 1, isLastPass: true, args: buildPassArgs(1, true) }];
+
+  return {
+    outputPath,
+    totalFrames,
+    needsTonemap,
+    tonemap,
+    videoRange,
+    dynamicMetadata: carried?.type ?? null,
+    useHwAccelInput,
+    scaleFilter,
+    commands,
+    remux:
+      encodePath !== outputPath
+        ? { inputPath: encodePath, args: buildDolbyVisionRemuxArgs(encodePath, outputPath) }
+        : undefined,
+  };
+}
+
+/**
+ * Run ffmpeg, handing the recent stderr (which carries the stats line) to
+ * `onStats` as it arrives. `owner` lets the run be paused, skipped or
+ * cancelled (see run-control.ts).
+ */
+export async function runFFmpeg(
+  args: string[],
+  onStats: (stderrBuffer: string) => void,
+  owner: ProcessOwner = {}
+): Promise<void> {
+  const logger = getLogger();
+  await logger.logCommand('ffmpeg', args);
+
+  const proc = Bun.spawn(['ffmpeg', ...args], {
+    stdout: 'pipe',
+    stderr: 'pipe',
+  });
+  const tracked = trackProcess(proc, owner);
+
+  const decoder = new TextDecoder();
+  const reader = proc.stderr.getReader();
+
+  let stderrBuffer = '';
+  let fullStderr = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    const chunk = decoder.decode(value, { stream: true });
+    stderrBuffer += chunk;
+    fullStderr += chunk;
+    onStats(stderrBuffer);
+
+    // Clear buffer periodically to avoid memory issues
+    if (stderrBuffer.length > 10000) {
+      stderrBuffer = stderrBuffer.slice(-1000);
+    }
+  }
+
+  const exitCode = await proc.exited;
+  await releaseProcess(tracked);
+  if (exitCode !== 0) {
+    await logger.error(`FFmpeg exited with code ${exitCode}`);
+    await logger.logOutput(fullStderr);
+    throw new Error(`FFmpeg exited with code ${exitCode}\n${fullStderr.slice(-2000)}`);
+  }
+}
+
+// Journal inputs of a rendition: its encode passes and the remux, if any
+function getJournalInputs(inputPath: string, plan: TranscodePlan): JournalInputs {
+  return {
+    sourcePath: inputPath,
+    commands: [
+      ...plan.commands.map((command) => command.args),
+      ...(plan.remux ? [plan.remux.args] : []),
+    ],
+  };
+}
+
+/**
+ * After encoding: add the Dolby Vision configuration and check that HDR
+ * renditions came out as HDR.
+ */
+async function finishRendition(plan: TranscodePlan): Promise<void> {
+  const logger = getLogger();
+
+  if (plan.remux) {
+    await logger.logCommand('MP4Box', plan.remux.args);
+    const proc = Bun.spawn(['MP4Box', ...plan.remux.args], {
+      stdout: 'ignore',
       stderr: 'pipe',
     });
+    const tracked = trackProcess(proc, { outputs: [plan.outputPath] });
+    const stderr = await new Response(proc.stderr).text();
+    const exitCode = await proc.exited;
+    await releaseProcess(tracked);
+    if (exitCode !== 0) {
+      await logger.logOutput(stderr);
+      throw new Error(`MP4Box exited with code ${exitCode}\n${stderr.slice(-2000)}`);
+    }
+    await fs.rm(plan.remux.inputPath, { force: true });
+  }
+
+  if (plan.videoRange !== 'SDR') {
+    const problems = await verifyHDROutput(plan.outputPath, plan.videoRange);
+    if (problems.length > 0) {
+      throw new Error(`Output is not ${plan.videoRange} HDR: ${problems.join('; ')}`);
+    }
+    await logger.info(`HDR verified: 10-bit BT.2020 ${plan.videoRange}`);
+  }
+}
 
-    // Parse progress from stderr
-    const decoder = new TextDecoder();
-    const reader = proc.stderr.getReader();
+export async function transcodeRendition(
+  inputPath: string,
+  outputDir: string,
+  rendition: Rendition,
+  codec: VideoCodec,
+  hwAccel: HWAccelInfo,
+  mediaInfo: MediaInfo,
+  settings: TranscodeSettings,
+  keyframeInterval: number,
+  callbacks: TranscodeCallbacks,
+  dynamicMetadata: DynamicMetadata | null = null,
+  threads: number | null = null
+): Promise<string | null> {
+  const logger = getLogger();
+  const plan = planTranscode(
+    inputPath,
+    outputDir,
+    rendition,
+    codec,
+    hwAccel,
+    mediaInfo,
+    settings,
+    keyframeInterval,
+    dynamicMetadata,
+    threads
+  );
+  const { outputPath, totalFrames } = plan;
+  const journalInputs = getJournalInputs(inputPath, plan);
 
-    let stderrBuffer = '';
-    let fullStderr = '';
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
+  await logger.section(`Transcoding ${rendition.quality} ${codec.toUpperCase()}`);
+  await logger.info(`Output: ${outputPath}`);
 
-      const chunk = decoder.decode(value, { stream: true });
-      stderrBuffer += chunk;
-      fullStderr += chunk;
+  if (await isOutputComplete(outputPath, journalInputs)) {
+    await logger.info(`SKIPPED: Completed by an earlier run with the same settings`);
+    callbacks.onComplete(codec, rendition.quality, outputPath);
+    return outputPath;
+  }
 
+  await logger.info(`Total frames: ${totalFrames}`);
+  await logger.info(`Needs tonemap: ${plan.needsTonemap}`);
+  if (plan.tonemap) {
+    await logger.info(`Tonemap: ${formatTonemap(plan.tonemap)}`);
+  }
+  if (plan.dynamicMetadata) {
+    await logger.info(`Dynamic metadata: ${plan.dynamicMetadata}`);
+  }
+  await logger.info(`Scale filter: ${plan.scaleFilter}`);
+  await logger.info(`HW Accel: ${hwAccel.displayName}`);
+  if (codec === 'av1' && hwAccel.supportsAV1HW && settings.av1FilmGrain > 0) {
+    await logger.warn(
+      `Film grain synthesis is only supported by SVT-AV1; ignored for ${hwAccel.av1Encoder}`
+    );
+  }
+
+  const owner: ProcessOwner = {
+    jobs: [{ codec, quality: rendition.quality }],
+    outputs: [plan.remux?.inputPath ?? outputPath],
+  };
+  const runPass = async ({ pass, args }: TranscodeCommand): Promise<void> => {
+    const onStats = (stderrBuffer: string) => {
       // Parse progress lines
       const frameMatch = stderrBuffer.match(/frame=\s*(\d+)/);
       const fpsMatch = stderrBuffer.match(/fps=\s*([\d.]+)/);
@@ -507,31 +1141,20 @@ export async function transcodeRendition(
           eta,
         });
       }
-
-      // Clear buffer periodically to avoid memory issues
-      if (stderrBuffer.length > 10000) {
-        stderrBuffer = stderrBuffer.slice(-1000);
-      }
-    }
-
-    const exitCode = await proc.exited;
-    if (exitCode !== 0) {
-      await logger.error(`FFmpeg exited with code ${exitCode}`);
-      await logger.logOutput(fullStderr);
-      throw new Error(`FFmpeg exited with code ${exitCode}\n${fullStderr.slice(-2000)}`);
-    }
+    };
+    await runFFmpeg(args, onStats, owner);
 
     await logger.info(`Pass ${pass} completed successfully`);
     callbacks.onPassComplete(pass, codec, rendition.quality);
   };
 
   try {
-    if (codec === 'vp9' && settings.passes === 2) {
-      await runPass(1, false);
-      await runPass(2, true);
-    } else {
-      await runPass(1, true);
+    await startOutput(outputPath, journalInputs);
+    for (const command of plan.commands) {
+      await runPass(command);
     }
+    await finishRendition(plan);
+    await completeOutput(outputPath, journalInputs);
 
     await logger.info(`Transcoding complete: ${outputPath}`);
     callbacks.onComplete(codec, rendition.quality, outputPath);
@@ -545,11 +1168,347 @@ export async function transcodeRendition(
   }
 }
 
+/**
+ * Split a codec's renditions into those that can share one decode (see
+ * shared-decode.ts) and those that run one process each.
+ */
+export function partitionSharedDecode(
+  renditions: Rendition[],
+  codec: VideoCodec,
+  hwAccel: HWAccelInfo,
+  video: VideoInfo
+): { shared: Rendition[]; separate: Rendition[] } {
+  // QSV, VAAPI, AMF and VideoToolbox encoders each want their own device
+  if (usesHWEncoder(codec, hwAccel) && hwAccel.method !== 'nvidia') {
+    return { shared: [], separate: renditions };
+  }
+
+  const gpuDecode = buildHWAccelInputArgs(hwAccel).length > 0;
+  const cpuFrames = renditions.filter(
+    (rendition) =>
+      !gpuDecode ||
+      !shouldUseHwAccelInput(
+        codec,
+        hwAccel,
+        needsTonemapping(rendition, codec, hwAccel, video),
+        video
+      )
+  );
+  if (cpuFrames.length < 2) {
+    return { shared: [], separate: renditions };
+  }
+  return {
+    shared: cpuFrames,
+    separate: renditions.filter((rendition) => !cpuFrames.includes(rendition)),
+  };
+}
+
+export interface SharedTranscodePlan {
+  rungs: TranscodePlan[]; // Per rendition: output, frame count, range and remux
+  filterGraph: string;
+  commands: TranscodeCommand[]; // Every rendition is an output of each pass
+}
+
+/**
+ * Build the ffmpeg invocations that encode several renditions of a codec
+ * from one decode. `threads` holds each rendition's software encoder
+ * threads.
+ */
+export function planSharedTranscode(
+  inputPath: string,
+  outputDir: string,
+  renditions: Rendition[],
+  codec: VideoCodec,
+  hwAccel: HWAccelInfo,
+  mediaInfo: MediaInfo,
+  settings: TranscodeSettings,
+  keyframeInterval: number,
+  dynamicMetadata: DynamicMetadata | null = null,
+  threads: Array<number | null> = []
+): SharedTranscodePlan {
+  const video = mediaInfo.video;
+  const rungs = renditions.map((rendition, idx) =>
+    planTranscode(
+      inputPath,
+      outputDir,
+      rendition,
+      codec,
+      hwAccel,
+      mediaInfo,
+      settings,
+      keyframeInterval,
+      dynamicMetadata,
+      threads[idx] ?? null
+    )
+  );
+
+  // Deinterlacing and cropping are the same for every rung; tone-mapping is
+  // shared by the rungs with the same settings. The fps filter only keeps
+  // or repeats frames, so it can run after them
+  const prefix = [buildDeinterlaceFilter(video), buildCropFilter(video)].filter(
+    (filter): filter is string => filter !== null
+  );
+  const filterGraph = buildSplitFilterGraph(
+    prefix,
+    renditions.map((rendition, idx) => ({
+      branch: rungs[idx].tonemap ? buildTonemapFilter(video, rungs[idx].tonemap) : null,
+      chain:
+        [buildFrameRateFilter(video, rendition), buildResizeFilter(rendition, video)]
+          .filter(Boolean)
+          .join(',') + buildEncoderInputFilter(codec, hwAccel, rungs[idx].videoRange),
+    }))
+  );
+
+  const buildPassArgs = (pass: 1 | 2, isLastPass: boolean): string[] => {
+    const args = ['-y', '-i', inputPath, '-filter_complex', filterGraph];
+    renditions.forEach((rendition, idx) => {
+      const rung = rungs[idx];
+      args.push(
+        '-map',
+        getSharedOutputLabel(idx),
+        ...buildEncoderArgs({
+          rendition,
+          codec,
+          hwAccel,
+          settings,
+          video,
+          videoRange: rung.videoRange,
+          dynamicMetadata:
+            dynamicMetadata && carriesDynamicMetadata(codec, hwAccel, rung.videoRange)
+              ? dynamicMetadata
+              : null,
+          keyframes: buildKeyframeArgs(getRenditionFrameRate(video, rendition), keyframeInterval),
+          threads: threads[idx] ?? null,
+          pass,
+          passLogFile: getPassLogFile(outputDir, rendition),
+        }),
+        '-an',
+        ...(isLastPass ? [rung.remux?.inputPath ?? rung.outputPath] : ['-f', 'null', NULL_OUTPUT])
+      );
+    });
+    return args;
+  };
+
+  // Only software VP9 supports two-pass encoding
+  const commands: TranscodeCommand[] =
+    codec === 'vp9' && settings.passes === 2
+      ? [
+          { pass: 1, isLastPass: false, args: buildPassArgs(1, false) },
+          { pass: 2, isLastPass: true, args: buildPassArgs(2, true) },
+        ]
+      : [{ pass: 1, isLastPass: true, args: buildPassArgs(1, true) }];
+
+  return { rungs, filterGraph, commands };
+}
+
+/**
+ * Encode several renditions of a codec from one decode. Progress and the
+ * outcome are reported per rendition through `getCallbacks`. Resolves with
+ * each rendition's output, or null where it failed (reported via onError);
+ * a failing process fails every rendition in it.
+ */
+export async function transcodeSharedRenditions(
+  inputPath: string,
+  outputDir: string,
+  renditions: Rendition[],
+  codec: VideoCodec,
+  hwAccel: HWAccelInfo,
+  mediaInfo: MediaInfo,
+  settings: TranscodeSettings,
+  keyframeInterval: number,
+  getCallbacks: (rendition: Rendition) => TranscodeCallbacks,
+  dynamicMetadata: DynamicMetadata | null = null,
+  threads: Array<number | null> = []
+): Promise<Array<string | null>> {
+  const logger = getLogger();
+  const outputs = new Map<Rendition, string | null>();
+
+  await logger.section(
+    `Transcoding ${renditions.map((r) => r.quality).join(', ')} ${codec.toUpperCase()} ` +
+      `(single decode)`
+  );
+
+  // A rung is journaled with the commands of its own encode, so which rungs
+  // share the process doesn't matter when reusing it
+  const pending: Rendition[] = [];
+  for (const [idx, rendition] of renditions.entries()) {
+    const rung = planTranscode(
+      inputPath,
+      outputDir,
+      rendition,
+      codec,
+      hwAccel,
+      mediaInfo,
+      settings,
+      keyframeInterval,
+      dynamicMetadata,
+      threads[idx] ?? null
+    );
+    if (await isOutputComplete(rung.outputPath, getJournalInputs(inputPath, rung))) {
+      await logger.info(`SKIPPED: ${rung.outputPath} completed by an earlier run`);
+      getCallbacks(rendition).onComplete(codec, rendition.quality, rung.outputPath);
+      outputs.set(rendition, rung.outputPath);
+    } else {
+      pending.push(rendition);
+    }
+  }
+
+  if (pending.length > 0) {
+    const plan = planSharedTranscode(
+      inputPath,
+      outputDir,
+      pending,
+      codec,
+      hwAccel,
+      mediaInfo,
+      settings,
+      keyframeInterval,
+      dynamicMetadata,
+      pending.map((rendition) => threads[renditions.indexOf(rendition)] ?? null)
+    );
+    await logger.info(`Filter graph: ${plan.filterGraph}`);
+    await logger.info(`HW Accel: ${hwAccel.displayName}`);
+    for (const rung of plan.rungs) {
+      await logger.info(
+        `Output: ${rung.outputPath} (${rung.totalFrames} frames, ${rung.videoRange}` +
+          `${rung.tonemap ? `, ${formatTonemap(rung.tonemap)}` : ''})`
+      );
+    }
+
+    const owner: ProcessOwner = {
+      jobs: pending.map((rendition) => ({ codec, quality: rendition.quality })),
+      outputs: plan.rungs.map((rung) => rung.remux?.inputPath ?? rung.outputPath),
+    };
+    try {
+      for (const rung of plan.rungs) {
+        await startOutput(rung.outputPath, getJournalInputs(inputPath, rung));
+      }
+      for (const { pass, args } of plan.commands) {
+        // Every output advances with the decode, so one position covers all
+        const onStats = (stderrBuffer: string) => {
+          const time = parseStatsTime(stderrBuffer);
+          if (time === null || mediaInfo.duration <= 0) return;
+          const speedMatch = stderrBuffer.match(/speed=\s*([\d.]+)x/);
+          const speed = speedMatch ? parseFloat(speedMatch[1]) : 1;
+          const fraction = Math.min(time / mediaInfo.duration, 1);
+          const eta = speed > 0 ? (mediaInfo.duration - time) / speed : 0;
+
+          pending.forEach((rendition, idx) => {
+            const { outputPath, totalFrames } = plan.rungs[idx];
+            getCallbacks(rendition).onProgress({
+              job: {
+                rendition,
+                codec,
+                inputPath,
+                outputPath,
+                hwAccel,
+                settings,
+                sourceInfo: mediaInfo,
+              },
+              pass,
+              frame: Math.round(fraction * totalFrames),
+              totalFrames,
+              fps: speed * getRenditionFrameRate(mediaInfo.video, rendition),
+              speed,
+              percent: fraction * 100,
+              eta: Math.max(eta, 0),
+            });
+          });
+        };
+        await runFFmpeg(args, onStats, owner);
+
+        await logger.info(`Pass ${pass} completed successfully`);
+        for (const rendition of pending) {
+          getCallbacks(rendition).onPassComplete(pass, codec, rendition.quality);
+        }
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await logger.error(`Transcoding failed: ${errorMessage}`);
+      for (const rendition of pending) {
+        getCallbacks(rendition).onError(codec, rendition.quality, errorMessage);
+      }
+      return renditions.map((rendition) => outputs.get(rendition) ?? null);
+    }
+
+    // Outputs are finished one by one, so one bad rung doesn't fail the rest
+    for (const [idx, rendition] of pending.entries()) {
+      const rung = plan.rungs[idx];
+      try {
+        await finishRendition(rung);
+        await completeOutput(rung.outputPath, getJournalInputs(inputPath, rung));
+        await logger.info(`Transcoding complete: ${rung.outputPath}`);
+        getCallbacks(rendition).onComplete(codec, rendition.quality, rung.outputPath);
+        outputs.set(rendition, rung.outputPath);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        await logger.error(`Transcoding ${rendition.quality} failed: ${errorMessage}`);
+        getCallbacks(rendition).onError(codec, rendition.quality, errorMessage);
+      }
+    }
+  }
+
+  return renditions.map((rendition) => outputs.get(rendition) ?? null);
+}
+
+export function getSubtitleFileName(stream: SubtitleStream): string {
+  const suffix =
+    stream.type === 'forced'
+      ? '_forced'
+      : stream.type === 'sdh'
+        ? '_sdh'
+        : '';
+  return `sub_${stream.language}${suffix}.vtt`;
+}
+
+// Position in the selected audio list keeps names unique for repeated languages
+export function getAudioFileName(stream: AudioStream, position: number): string {
+  return `audio_${stream.language}_${position}.mp4`;
+}
+
+export function buildSubtitleExtractArgs(
+  inputPath: string,
+  outputPath: string,
+  stream: SubtitleStream
+): string[] {
+  return [
+    '-y',
+    '-i',
+    inputPath,
+    '-map',
+    // Use relative subtitle stream index, not absolute stream index
+    `0:s:${stream.index}`,
+    '-c:s',
+    'webvtt',
+    outputPath,
+  ];
+}
+
+export function buildAudioExtractArgs(
+  inputPath: string,
+  outputPath: string,
+  stream: AudioStream
+): string[] {
+  return [
+    '-y',
+    '-i',
+    inputPath,
+    '-map',
+    // Use relative audio stream index, not absolute stream index
+    `0:a:${stream.index}`,
+    '-c:a',
+    getAudioCodec(stream),
+    '-b:a',
+    getAudioBitrate(stream),
+    '-vn',
+    outputPath,
+  ];
+}
+
 export async function extractSubtitles(
   inputPath: string,
   outputDir: string,
-  subtitleStreams: SubtitleStream[],
-  skipIfExists: boolean = false
+  subtitleStreams: SubtitleStream[]
 ): Promise<Map<number, string>> {
   const logger = getLogger();
   const outputPaths = new Map<number, string>();
@@ -558,55 +1517,39 @@ export async function extractSubtitles(
 
   for (let idx = 0; idx < subtitleStreams.length; idx++) {
     const stream = subtitleStreams[idx];
-    const suffix =
-      stream.type === 'forced'
-        ? '_forced'
-        : stream.type === 'sdh'
-          ? '_sdh'
-          : '';
-    const outputFileName = `sub_${stream.language}${suffix}.vtt`;
+    const outputFileName = getSubtitleFileName(stream);
     const outputPath = path.join(outputDir, outputFileName);
 
     await logger.info(`Extracting subtitle: ${stream.language} (${stream.type})`);
 
-    // Check if exists
-    if (skipIfExists) {
-      try {
-        await fs.access(outputPath);
-        await logger.info(`SKIPPED: ${outputFileName} already exists`);
-        outputPaths.set(idx, outputPath);
-        continue;
-      } catch {
-        // File doesn't exist, continue
-      }
+    const args = buildSubtitleExtractArgs(inputPath, outputPath, stream);
+    const journalInputs: JournalInputs = { sourcePath: inputPath, commands: [args] };
+    if (await isOutputComplete(outputPath, journalInputs)) {
+      await logger.info(`SKIPPED: ${outputFileName} extracted by an earlier run`);
+      outputPaths.set(idx, outputPath);
+      continue;
     }
 
-    const args = [
-      '-y',
-      '-i',
-      inputPath,
-      '-map',
-      // Use relative subtitle stream index (idx), not absolute stream index
-      `0:s:${idx}`,
-      '-c:s',
-      'webvtt',
-      outputPath,
-    ];
-
     await logger.logCommand('ffmpeg', args);
+    await startOutput(outputPath, journalInputs);
 
     const proc = Bun.spawn(['ffmpeg', ...args], {
       stdout: 'pipe',
       stderr: 'pipe',
     });
+    const tracked = trackProcess(proc, { outputs: [outputPath] });
 
     const exitCode = await proc.exited;
+    await releaseProcess(tracked);
     if (exitCode === 0) {
+      await completeOutput(outputPath, journalInputs);
       await logger.info(`Extracted: ${outputFileName}`);
       outputPaths.set(idx, outputPath);
     } else {
       const stderr = await new Response(proc.stderr).text();
       await logger.error(`Failed to extract subtitle: ${stderr}`);
+      // Packaging needs every track, so the source fails
+      throw new Error(`FFmpeg exited with code ${exitCode}\n${stderr.slice(-2000)}`);
     }
   }
 
@@ -616,8 +1559,7 @@ export async function extractSubtitles(
 export async function extractAudio(
   inputPath: string,
   outputDir: string,
-  audioStreams: AudioStream[],
-  skipIfExists: boolean = false
+  audioStreams: AudioStream[]
 ): Promise<Map<number, string>> {
   const logger = getLogger();
   const outputPaths = new Map<number, string>();
@@ -626,56 +1568,39 @@ export async function extractAudio(
 
   for (let idx = 0; idx < audioStreams.length; idx++) {
     const stream = audioStreams[idx];
-    // Use array index for filename to match App.tsx expectations
-    const outputFileName = `audio_${stream.language}_${idx}.mp4`;
+    const outputFileName = getAudioFileName(stream, idx);
     const outputPath = path.join(outputDir, outputFileName);
 
     await logger.info(`Extracting audio: ${stream.language} (${stream.channelLayout})`);
 
-    // Check if exists
-    if (skipIfExists) {
-      try {
-        await fs.access(outputPath);
-        await logger.info(`SKIPPED: ${outputFileName} already exists`);
-        outputPaths.set(idx, outputPath);
-        continue;
-      } catch {
-        // File doesn't exist, continue
-      }
+    const args = buildAudioExtractArgs(inputPath, outputPath, stream);
+    const journalInputs: JournalInputs = { sourcePath: inputPath, commands: [args] };
+    if (await isOutputComplete(outputPath, journalInputs)) {
+      await logger.info(`SKIPPED: ${outputFileName} extracted by an earlier run`);
+      outputPaths.set(idx, outputPath);
+      continue;
     }
 
-    const codec = getAudioCodec(stream);
-    const bitrate = getAudioBitrate(stream);
-
-    const args = [
-      '-y',
-      '-i',
-      inputPath,
-      '-map',
-      // Use relative audio stream index (idx), not absolute stream index
-      `0:a:${idx}`,
-      '-c:a',
-      codec,
-      '-b:a',
-      bitrate,
-      '-vn',
-      outputPath,
-    ];
-
     await logger.logCommand('ffmpeg', args);
+    await startOutput(outputPath, journalInputs);
 
     const proc = Bun.spawn(['ffmpeg', ...args], {
       stdout: 'pipe',
       stderr: 'pipe',
     });
+    const tracked = trackProcess(proc, { outputs: [outputPath] });
 
     const exitCode = await proc.exited;
+    await releaseProcess(tracked);
     if (exitCode === 0) {
+      await completeOutput(outputPath, journalInputs);
       await logger.info(`Extracted: ${outputFileName}`);
       outputPaths.set(idx, outputPath);
     } else {
       const stderr = await new Response(proc.stderr).text();
       await logger.error(`Failed to extract audio: ${stderr}`);
+      // Packaging needs every track, so the source fails
+      throw new Error(`FFmpeg exited with code ${exitCode}\n${stderr.slice(-2000)}`);
     }
   }
 
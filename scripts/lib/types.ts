@@ -1,6 +1,55 @@
 // CLI Arguments
+export type HWPreference = HWAccelMethod | 'hybrid' | 'auto';
+
 export interface CLIArgs {
   devMode: boolean;
+  help: boolean;
+  assumeYes: boolean; // Run headless without prompting (-y/--yes)
+  json: boolean; // Emit NDJSON events instead of text (headless only)
+  dryRun: boolean; // Print the command plan without running it
+  inputPath?: string;
+  outputPath?: string;
+  jobFile?: string; // Batch: JSON job specification (--job)
+  sourceGlob?: string; // Batch: glob or directory of sources (--glob)
+  reportPath?: string; // Batch: aggregate report file (--report)
+  watchDir?: string; // Watch mode: ingest directory (--watch)
+  resumeDir?: string; // Output directory of a stopped run to continue (--resume)
+  pollInterval: number; // Watch mode: seconds between directory polls
+  renditions?: RenditionQuality[]; // Defaults to every rung the source supports
+  codecs: VideoCodec[];
+  hw: HWPreference;
+  preset?: string; // Named preset from the config file (--preset)
+  configPath?: string; // Explicit config file (--config)
+  perTitle: boolean; // Analyze the source and tune the ladder (--per-title)
+  idet: boolean; // Detect interlacing/telecine from the pictures (--idet)
+  vfrScan: boolean; // Detect VFR from the frame timestamps (--vfr-scan)
+  crop: boolean; // Detect and remove black bars (--crop)
+  threads?: number; // CPU thread budget shared by parallel jobs (--threads)
+  singleDecode: boolean; // Feed a codec's rungs from one decode (--single-decode)
+  chunked: boolean; // Encode software rungs in parallel chunks (--chunked)
+}
+
+// Selects a source track by relative index (0 = first audio track) or language code
+export type TrackSelector = number | string;
+
+// One source to run through the pipeline unattended
+export interface SourceJob {
+  inputPath: string;
+  outputPath?: string; // Defaults to <source>_output
+  renditions?: RenditionQuality[];
+  codecs: VideoCodec[];
+  hw: HWPreference;
+  devMode: boolean;
+  preset?: EncodingPreset;
+  perTitle?: boolean;
+  idet?: boolean;
+  vfrScan?: boolean;
+  crop?: boolean;
+  threads?: number;
+  singleDecode?: boolean;
+  chunked?: boolean;
+  audioTracks?: TrackSelector[]; // Defaults to all tracks
+  subtitleTracks?: TrackSelector[]; // Defaults to all tracks
 }
 
 // Tool Status
@@ -40,6 +89,8 @@ export interface FFprobeStream {
   height?: number;
   coded_width?: number;
   coded_height?: number;
+  sample_aspect_ratio?: string;
+  display_aspect_ratio?: string;
   pix_fmt?: string;
   level?: number;
   color_range?: string;
@@ -81,20 +132,54 @@ export interface FFprobeSideData {
 }
 
 // Media Info
-export type HDRType = 'SDR' | 'HDR10' | 'HDR10+' | 'DolbyVision';
+export type HDRType = 'SDR' | 'HDR10' | 'HDR10+' | 'DolbyVision' | 'HLG';
+
+// Transfer function of an encoded rendition, named as in HLS VIDEO-RANGE
+export type VideoRange = 'SDR' | 'PQ' | 'HLG';
 
 export interface VideoInfo {
   width: number;
   height: number;
+  // Geometry as shown by a player, after SAR and rotation are applied
+  displayWidth: number;
+  displayHeight: number;
+  sampleAspectRatio: number; // 1 for square pixels
+  rotation: number; // Clockwise degrees: 0, 90, 180 or 270
   codec: string;
   profile: string;
   pixelFormat: string;
-  frameRate: number;
+  frameRate: number; // avg_frame_rate; see getOutputFrameRate for the renditions
+  variableFrameRate: boolean;
+  scanType: ScanType;
+  fieldOrder?: FieldOrder; // Display order of interlaced/telecined fields
+  crop?: CropRect; // Black bars to remove (--crop), see crop.ts
   bitrate: number;
   hdrType: HDRType;
   colorPrimaries?: string;
   colorTransfer?: string;
   colorSpace?: string;
+  masteringDisplay?: MasteringDisplay;
+  contentLightLevel?: ContentLightLevel;
+  dolbyVisionProfile?: number; // From the DOVI configuration record
+}
+
+export type ScanType = 'progressive' | 'interlaced' | 'telecine';
+export type FieldOrder = 'tff' | 'bff';
+
+// SMPTE ST 2086 mastering display colour volume (HDR10 static metadata)
+export interface MasteringDisplay {
+  // CIE 1931 xy chromaticity coordinates
+  red: [number, number];
+  green: [number, number];
+  blue: [number, number];
+  whitePoint: [number, number];
+  maxLuminance: number; // cd/m²
+  minLuminance: number; // cd/m²
+}
+
+export interface ContentLightLevel {
+  maxCll: number; // cd/m²
+  maxFall: number; // cd/m²
 }
 
 export type AudioChannelLayout = 'stereo' | '5.1' | 'atmos';
@@ -122,6 +207,14 @@ export interface SubtitleStream {
   isDefault: boolean;
 }
 
+// Picture area inside black bars, in pixels of the (autorotated) frame
+export interface CropRect {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+}
+
 export interface MediaInfo {
   filePath: string;
   fileName: string;
@@ -130,6 +223,7 @@ export interface MediaInfo {
   video: VideoInfo;
   audioStreams: AudioStream[];
   subtitleStreams: SubtitleStream[];
+  warnings: string[]; // Source quality notes shown before encoding
 }
 
 // Hardware Acceleration
@@ -146,22 +240,40 @@ export interface HWAccelInfo {
   displayName: string;
   hevcEncoder: string;
   vp9Encoder: string;
+  av1Encoder: string;
+  h264Encoder: string;
   hwaccelFlag?: string;
   hwaccelOutputFormat?: string;
   scaleFilter: string;
   supportsVP9HW?: boolean; // True if VP9 uses hardware encoder (not libvpx-vp9)
   supportsHEVC10bit?: boolean; // True if HEVC 10-bit encoding supported
   supportsVP910bit?: boolean; // True if VP9 10-bit encoding supported
+  supportsAV1HW?: boolean; // True if AV1 uses hardware encoder (not libsvtav1)
 }
 
 // Hybrid encoding: use different HW for different codecs
 export interface HybridHWAccel {
   hevc: HWAccelInfo; // HW to use for HEVC encoding
   vp9: HWAccelInfo; // HW to use for VP9 encoding
+  av1: HWAccelInfo; // HW to use for AV1 encoding
+  h264: HWAccelInfo; // HW to use for H.264 encoding
+}
+
+export interface HWAccelSelection {
+  hwAccel: HWAccelInfo;
+  hybrid: HybridHWAccel | null;
 }
 
 // Renditions
-export type RenditionQuality = '2160p' | '1440p' | '1080p' | '720p' | '480p';
+export type RenditionQuality =
+  | '2160p'
+  | '1440p'
+  | '1080p'
+  | '720p'
+  | '576p'
+  | '480p'
+  | '360p'
+  | '240p';
 
 export interface Rendition {
   quality: RenditionQuality;
@@ -169,12 +281,54 @@ export interface Rendition {
   height: number;
   vp9Bitrate: number;
   hevcBitrate: number;
+  av1Bitrate: number;
+  h264Bitrate: number;
   maxrate: number;
   bufsize: number;
   preserveHDR: boolean;
+  tonemap?: TonemapOverride; // Per-rung tone-mapping, over the preset's
+  maxFrameRate?: number; // Higher source rates are divided down, see frame-rate.ts
+}
+
+export type TonemapOperator = 'hable' | 'mobius' | 'reinhard' | 'bt2390';
+
+// HDR to SDR tone mapping for renditions that don't keep the source's HDR
+export interface TonemapSettings {
+  operator: TonemapOperator;
+  peak?: number; // Source peak in nits; unset reads it from the stream
+  targetNits: number; // SDR reference white
+  desat: number; // Highlight desaturation strength, 0 = off
+  dynamicPeak: boolean; // Measure the source's actual peak before encoding
+}
+
+// Peak detection runs once per source, so it can't be set per rung
+export type TonemapOverride = Partial<Omit<TonemapSettings, 'dynamicPeak'>>;
+
+// Per-title ladder analysis
+export interface RungDecision {
+  quality: RenditionQuality;
+  probeBitrate: number; // kbps the sample encodes needed at the probe CRF
+  factor: number; // Multiplier applied to the ladder bitrates
+  kept: boolean;
+  reason: string;
+}
+
+export interface LadderAnalysis {
+  samples: number; // Sample segments encoded per rung
+  sampleSeconds: number;
+  renditions: Rendition[]; // Chosen per-title ladder
+  decisions: RungDecision[];
+}
+
+// Tone-mapping preview: each frame shows the operators left to right
+export interface TonemapPreview {
+  operators: TonemapOperator[];
+  frames: Array<{ timestamp: number; path: string }>;
 }
 
 // Transcoding
+export type VideoCodec = 'vp9' | 'hevc' | 'av1' | 'h264';
+
 export type TranscodeMode = 'dev' | 'prod';
 
 export interface TranscodeSettings {
@@ -182,13 +336,29 @@ export interface TranscodeSettings {
   passes: 1 | 2;
   vp9Deadline: 'realtime' | 'good';
   vp9CpuUsed: number;
-  hevcPreset: string;
+  hevcPreset: string; // NVENC preset (p1-p7)
   x265Preset: string;
+  x264Preset: string;
+  svtAv1Preset: number; // 0 (slowest) - 13 (fastest)
+  av1FilmGrain: number; // SVT-AV1 film grain synthesis level, 0 = off
+  av1FilmGrainDenoise: boolean; // Denoise before encoding and rely on synthesized grain
+  segmentDuration: number; // Seconds; every segment starts on a keyframe
+  tonemap: TonemapSettings;
+}
+
+// Named preset from transcode.config.json; unset fields keep the mode defaults
+export interface EncodingPreset {
+  name: string;
+  description?: string;
+  rungs?: Rendition[]; // Replaces the built-in rendition ladder
+  settings: Partial<Omit<TranscodeSettings, 'mode' | 'tonemap'>> & {
+    tonemap?: Partial<TonemapSettings>;
+  };
 }
 
 export interface TranscodeJob {
   rendition: Rendition;
-  codec: 'vp9' | 'hevc';
+  codec: VideoCodec;
   inputPath: string;
   outputPath: string;
   hwAccel: HWAccelInfo;
@@ -207,6 +377,24 @@ export interface TranscodeProgress {
   eta: number;
 }
 
+// A single rendition/codec pair in a run
+export interface RenditionJob {
+  codec: VideoCodec;
+  quality: RenditionQuality;
+}
+
+export interface FailedJob extends RenditionJob {
+  error: string;
+}
+
+// A job the scheduler has started; progress is null until ffmpeg reports
+export interface RunningJob {
+  job: RenditionJob;
+  progress: TranscodeProgress | null;
+}
+
+export type SourceStatus = 'success' | 'partial' | 'failed';
+
 // Packager
 export interface PackagerInput {
   type: 'video' | 'audio' | 'subtitle';
@@ -218,6 +406,9 @@ export interface PackagerInput {
   subtitleType?: SubtitleType;
   isDefault?: boolean;
   index?: number; // Unique index to differentiate streams with same language
+  videoRange?: VideoRange;
+  supplementalCodec?: string; // e.g. Dolby Vision "dvh1.08.06/db1p"
+  frameRate?: number; // Encoded rate, after any rung cap
 }
 
 export interface PackagerOutput {
@@ -234,6 +425,10 @@ export type AppStep =
   | 'input-output'
   | 'probing'
   | 'displaying-info'
+  | 'analyzing-ladder'
+  | 'reviewing-ladder'
+  | 'selecting-tonemap'
+  | 'previewing-tonemap'
   | 'selecting-renditions'
   | 'selecting-hw'
   | 'transcoding'
@@ -0,0 +1,378 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import type { CLIArgs, EncodingPreset, HWAccelInfo } from './types.js';
+import { detectHWAcceleration } from './hw-detect.js';
+import { ensureOutputDir } from './transcoder.js';
+import { isVideoFile } from './sources.js';
+import { resolvePreset } from './presets.js';
+import { CancelledError, cancelRun } from './run-control.js';
+import {
+  checkRequiredTools,
+  createEmitter,
+  runSource,
+  EXIT_CANCELLED,
+  EXIT_FAILURE,
+  EXIT_OK,
+  EXIT_USAGE,
+  type Emit,
+} from './headless.js';
+
+const STATE_FILE = '.transcode-watch.json';
+const DONE_DIR = 'done';
+const FAILED_DIR = 'failed';
+
+export interface WatchStateEntry {
+  fileName: string;
+  size: number;
+  mtimeMs: number;
+  status: 'processing' | 'done' | 'failed';
+  outputPath: string;
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+// Keyed by file fingerprint so a re-ingested file with new content is processed again
+export interface WatchState {
+  sources: Record<string, WatchStateEntry>;
+}
+
+interface Candidate {
+  size: number;
+  mtimeMs: number;
+  moveFailed?: boolean; // Finished but could not be moved; warned once
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : 'Unknown error';
+}
+
+function timestamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-');
+}
+
+function fingerprint(fileName: string, size: number, mtimeMs: number): string {
+  return `${fileName}:${size}:${Math.floor(mtimeMs)}`;
+}
+
+async function loadState(statePath: string): Promise<WatchState> {
+  try {
+    const state = (await Bun.file(statePath).json()) as WatchState;
+    return { sources: state.sources ?? {} };
+  } catch {
+    return { sources: {} };
+  }
+}
+
+async function saveState(statePath: string, state: WatchState): Promise<void> {
+  // Write to a temp file and rename so a crash never leaves a torn state file
+  const tmpPath = `${statePath}.tmp`;
+  await Bun.write(tmpPath, `${JSON.stringify(state, null, 2)}\n`);
+  await fs.rename(tmpPath, statePath);
+}
+
+/**
+ * Move a processed source into done/ or failed/. An existing file with the
+ * same name is kept and the new one gets a timestamp suffix.
+ */
+async function moveSource(filePath: string, targetDir: string): Promise<string> {
+  await ensureOutputDir(targetDir);
+  const ext = path.extname(filePath);
+  let target = path.join(targetDir, path.basename(filePath));
+  if (await Bun.file(target).exists()) {
+    target = path.join(targetDir, `${path.basename(filePath, ext)}_${timestamp()}${ext}`);
+  }
+
+  try {
+    await fs.rename(filePath, target);
+  } catch (err) {
+    // Cross-device move: copy then remove
+    if ((err as NodeJS.ErrnoException).code !== 'EXDEV') throw err;
+    await fs.copyFile(filePath, target);
+    await fs.unlink(filePath);
+  }
+  return target;
+}
+
+/**
+ * Long-running watch mode (--watch <dir>). New video files in the ingest
+ * directory are processed once their size and mtime stop changing across
+ * two polls, then moved to done/ or failed/. Job state is persisted in the
+ * ingest directory so a restart does not redo finished sources.
+ */
+export async function runWatcher(args: CLIArgs): Promise<number> {
+  const emit = createEmitter(args.json);
+  const watchDir = path.resolve(args.watchDir!);
+  const outputRoot = path.resolve(args.outputPath!);
+  const statePath = path.join(watchDir, STATE_FILE);
+  const pollMs = args.pollInterval * 1000;
+
+  const stat = await fs.stat(watchDir).catch(() => null);
+  if (!stat?.isDirectory()) {
+    emit({
+      type: 'error',
+      message: `Watch directory not found: ${watchDir}`,
+      exitCode: EXIT_FAILURE,
+    });
+    return EXIT_FAILURE;
+  }
+
+  let preset: EncodingPreset | undefined;
+  try {
+    preset = await resolvePreset(args.preset, args.configPath);
+  } catch (err) {
+    emit({ type: 'error', message: errorMessage(err), exitCode: EXIT_USAGE });
+    return EXIT_USAGE;
+  }
+
+  if (!(await checkRequiredTools(emit))) {
+    return EXIT_FAILURE;
+  }
+
+  await ensureOutputDir(outputRoot);
+  const availableHWAccel = await detectHWAcceleration();
+  const state = await loadState(statePath);
+  const candidates = new Map<string, Candidate>();
+
+  let stopping = false;
+  let processing = false;
+  const requestStop = () => {
+    if (stopping) {
+      // Second signal: give up on the current source. Cancelling kills its
+      // processes and removes their partial outputs before the loop ends
+      if (!processing) process.exit(EXIT_CANCELLED);
+      cancelRun();
+      return;
+    }
+    stopping = true;
+    if (!args.json) {
+      console.log('Stopping after the current source (press Ctrl+C again to abort)...');
+    }
+  };
+  process.on('SIGINT', requestStop);
+  process.on('SIGTERM', requestStop);
+
+  emit({ type: 'watch_start', watchDir, outputRoot, pollInterval: args.pollInterval });
+
+  try {
+    while (!stopping) {
+      const ready = await pollReadyFiles(watchDir, state, candidates, emit);
+
+      for (const filePath of ready) {
+        if (stopping) break;
+        processing = true;
+        try {
+          await processSource(filePath, {
+            args,
+            emit,
+            state,
+            statePath,
+            watchDir,
+            outputRoot,
+            availableHWAccel,
+            preset,
+          });
+        } catch (err) {
+          // A file gone or unreadable mid-way only costs this source; the
+          // daemon keeps watching
+          if (err instanceof CancelledError) throw err;
+          emit({ type: 'warning', message: `${filePath}: ${errorMessage(err)}` });
+        } finally {
+          processing = false;
+        }
+        candidates.delete(path.basename(filePath));
+      }
+
+      if (!stopping) {
+        await Bun.sleep(pollMs);
+      }
+    }
+  } catch (err) {
+    if (!(err instanceof CancelledError)) throw err;
+    emit({ type: 'error', message: err.message, exitCode: EXIT_CANCELLED });
+    return EXIT_CANCELLED;
+  } finally {
+    process.off('SIGINT', requestStop);
+    process.off('SIGTERM', requestStop);
+  }
+  return EXIT_OK;
+}
+
+/**
+ * Scan the ingest directory and return files that have stopped growing.
+ * Files already finished according to the state file are moved straight to
+ * their done/failed folder (e.g. after a crash between encode and move).
+ */
+async function pollReadyFiles(
+  watchDir: string,
+  state: WatchState,
+  candidates: Map<string, Candidate>,
+  emit: Emit
+): Promise<string[]> {
+  const entries = await fs.readdir(watchDir, { withFileTypes: true }).catch((err) => {
+    emit({ type: 'warning', message: `Could not read ${watchDir}: ${errorMessage(err)}` });
+    return [];
+  });
+  const ready: string[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of entries) {
+    if (!entry.isFile() || !isVideoFile(entry.name)) continue;
+    seen.add(entry.name);
+
+    const filePath = path.join(watchDir, entry.name);
+    const info = await fs.stat(filePath).catch(() => null);
+    if (!info) continue;
+
+    const previous = state.sources[fingerprint(entry.name, info.size, info.mtimeMs)];
+    if (previous && previous.status !== 'processing') {
+      const movedTo = await moveSource(
+        filePath,
+        path.join(watchDir, previous.status === 'done' ? DONE_DIR : FAILED_DIR)
+      ).catch((err) => {
+        if (!candidates.get(entry.name)?.moveFailed) {
+          emit({ type: 'warning', message: `Could not move ${filePath}: ${errorMessage(err)}` });
+        }
+        candidates.set(entry.name, { size: info.size, mtimeMs: info.mtimeMs, moveFailed: true });
+        return null;
+      });
+      if (!movedTo) continue;
+      emit({
+        type: 'watch_source',
+        inputPath: filePath,
+        status: previous.status,
+        outputPath: previous.outputPath,
+        movedTo,
+        error: previous.error,
+      });
+      continue;
+    }
+
+    const candidate = candidates.get(entry.name);
+    if (!candidate || candidate.size !== info.size || candidate.mtimeMs !== info.mtimeMs) {
+      if (!candidate) {
+        emit({ type: 'watch_source', inputPath: filePath, status: 'detected' });
+      }
+      candidates.set(entry.name, { size: info.size, mtimeMs: info.mtimeMs });
+      continue;
+    }
+
+    // Unchanged since the previous poll, so the copy has finished
+    if (info.size > 0) {
+      ready.push(filePath);
+    }
+  }
+
+  // Forget files that were removed before they became ready
+  for (const name of candidates.keys()) {
+    if (!seen.has(name)) candidates.delete(name);
+  }
+
+  return ready.sort();
+}
+
+/**
+ * Output directory for a source: its path under the ingest directory, without
+ * the extension. When another source's output already has that directory the
+ * new one gets a timestamp suffix, like moveSource. A source interrupted
+ * mid-run keeps its directory so it reuses what was finished.
+ */
+async function getOutputPath(filePath: string, key: string, ctx: ProcessContext): Promise<string> {
+  const interrupted = ctx.state.sources[key];
+  if (interrupted) return interrupted.outputPath;
+
+  const relative = path.relative(ctx.watchDir, filePath);
+  const outputPath = path.join(
+    ctx.outputRoot,
+    path.dirname(relative),
+    path.basename(relative, path.extname(relative))
+  );
+  const taken =
+    Object.values(ctx.state.sources).some((entry) => entry.outputPath === outputPath) ||
+    (await fs.stat(outputPath).catch(() => null)) !== null;
+  return taken ? `${outputPath}_${timestamp()}` : outputPath;
+}
+
+interface ProcessContext {
+  args: CLIArgs;
+  emit: Emit;
+  state: WatchState;
+  statePath: string;
+  watchDir: string;
+  outputRoot: string;
+  availableHWAccel: HWAccelInfo[];
+  preset?: EncodingPreset;
+}
+
+async function processSource(filePath: string, ctx: ProcessContext): Promise<void> {
+  const { args, emit, state, statePath, watchDir } = ctx;
+  const fileName = path.basename(filePath);
+  const info = await fs.stat(filePath);
+  const key = fingerprint(fileName, info.size, info.mtimeMs);
+  const outputPath = await getOutputPath(filePath, key, ctx);
+
+  const entry: WatchStateEntry = {
+    fileName,
+    size: info.size,
+    mtimeMs: info.mtimeMs,
+    status: 'processing',
+    outputPath,
+    startedAt: new Date().toISOString(),
+  };
+  state.sources[key] = entry;
+  await saveState(statePath, state);
+  emit({ type: 'watch_source', inputPath: filePath, status: 'processing', outputPath });
+
+  try {
+    const result = await runSource(
+      {
+        inputPath: filePath,
+        outputPath,
+        renditions: args.renditions,
+        codecs: args.codecs,
+        hw: args.hw,
+        devMode: args.devMode,
+        preset: ctx.preset,
+        perTitle: args.perTitle,
+        idet: args.idet,
+        vfrScan: args.vfrScan,
+        crop: args.crop,
+        threads: args.threads,
+        singleDecode: args.singleDecode,
+        chunked: args.chunked,
+      },
+      emit,
+      ctx.availableHWAccel
+    );
+    if (result.failedJobs.length > 0) {
+      entry.status = 'failed';
+      entry.error = result.failedJobs
+        .map((job) => `${job.quality} ${job.codec}: ${job.error.split('\n')[0]}`)
+        .join('; ');
+    } else {
+      entry.status = 'done';
+    }
+  } catch (err) {
+    // Cancelled: still processing in the state file, so it runs again on
+    // the next start and reuses what was finished
+    if (err instanceof CancelledError) throw err;
+    entry.status = 'failed';
+    entry.error = errorMessage(err);
+  }
+
+  entry.finishedAt = new Date().toISOString();
+  await saveState(statePath, state);
+
+  const movedTo = await moveSource(
+    filePath,
+    path.join(watchDir, entry.status === 'done' ? DONE_DIR : FAILED_DIR)
+  );
+  emit({
+    type: 'watch_source',
+    inputPath: filePath,
+    status: entry.status,
+    outputPath,
+    movedTo,
+    error: entry.error,
+  });
+}
@@ -2,8 +2,71 @@
 import React from 'react';
 import { render } from 'ink';
 import { App } from './components/App.js';
-import { parseArgs } from './lib/cli-args.js';
+import { parseArgs, getUnattendedFlags, CLIArgsError, USAGE } from './lib/cli-args.js';
+import { runHeadless, EXIT_USAGE } from './lib/headless.js';
+import { runBatch } from './lib/batch.js';
+import { runWatcher } from './lib/watcher.js';
+import { resolvePreset, PresetConfigError } from './lib/presets.js';
+import type { CLIArgs } from './lib/types.js';
 
-const args = parseArgs();
+let args: CLIArgs;
+try {
+  args = parseArgs();
+} catch (err) {
+  if (err instanceof CLIArgsError) {
+    console.error(`Error: ${err.message}\n`);
+    console.error(USAGE);
+    process.exit(EXIT_USAGE);
+  }
+  throw err;
+}
 
-render(<App devMode={args.devMode} />);
+if (args.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+// The wizard needs an interactive terminal; run headless otherwise
+const hasTTY = Boolean(process.stdin.isTTY && process.stdout.isTTY);
+
+if (args.watchDir) {
+  process.exit(await runWatcher(args));
+} else if (args.jobFile || args.sourceGlob) {
+  process.exit(await runBatch(args));
+} else if (args.resumeDir || args.assumeYes || args.dryRun || !hasTTY) {
+  process.exit(await runHeadless(args));
+} else {
+  // Refuse rather than ignore what the wizard would ask again
+  const unattended = getUnattendedFlags(args);
+  if (unattended.length > 0) {
+    console.error(`Error: ${unattended.join(', ')} only apply to unattended runs; add --yes\n`);
+    console.error(USAGE);
+    process.exit(EXIT_USAGE);
+  }
+
+  try {
+    const preset = await resolvePreset(args.preset, args.configPath);
+    render(
+      <App
+        devMode={args.devMode}
+        preset={preset}
+        perTitle={args.perTitle}
+        idet={args.idet}
+        vfrScan={args.vfrScan}
+        crop={args.crop}
+        threads={args.threads}
+        singleDecode={args.singleDecode}
+        chunked={args.chunked}
+        codecs={args.codecs}
+      />,
+      // Ctrl+C cancels a running pipeline cleanly (see App)
+      { exitOnCtrlC: false }
+    );
+  } catch (err) {
+    if (err instanceof PresetConfigError) {
+      console.error(`Error: ${err.message}`);
+      process.exit(EXIT_USAGE);
+    }
+    throw err;
+  }
+}